@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PIANO_SAMPLES, PIANO_SAMPLES_PATH, REMOTE_PIANO_SAMPLES_URL } from './src/shared/piano-samples';
+
+const OUTPUT_DIR = path.join('public', PIANO_SAMPLES_PATH);
+
+/**
+ * Download the piano samples into public/ so Vite serves them with the app
+ */
+async function downloadSamples() {
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const file of Object.values(PIANO_SAMPLES)) {
+    const outputPath = path.join(OUTPUT_DIR, file);
+    if (fs.existsSync(outputPath)) {
+      console.log(`Skipping ${file} (already downloaded)`);
+      continue;
+    }
+
+    const response = await fetch(REMOTE_PIANO_SAMPLES_URL + file);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${file}: ${response.status} ${response.statusText}`);
+    }
+    fs.writeFileSync(outputPath, Buffer.from(await response.arrayBuffer()));
+    console.log(`Downloaded ${file}`);
+  }
+
+  console.log(`Samples saved to ${OUTPUT_DIR}`);
+}
+
+downloadSamples().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+// Offline cache for the app and its piano samples. The page sends the files it has already
+// loaded (before this worker took control) so the first visit is enough to work offline.
+const CACHE_NAME = 'piano-play-along-v1';
+const SAMPLES_PATH = '/audio/';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name !== CACHE_NAME).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls') return;
+
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache => Promise.all(event.data.urls.map(url =>
+      cache.match(url).then(cached => cached || cache.add(url)).catch(error => {
+        console.warn('Failed to cache', url, error);
+      })
+    )))
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname.includes(SAMPLES_PATH)) {
+    // Samples never change
+    event.respondWith(caches.match(request).then(cached => cached || fetchAndCache(request)));
+  } else {
+    // The app itself: fresh when online, cached when not
+    event.respondWith(fetchAndCache(request).catch(() =>
+      caches.match(request).then(cached => cached || Response.error())
+    ));
+  }
+});
+
+function fetchAndCache(request) {
+  return fetch(request).then(response => {
+    if (response.ok) {
+      const copy = response.clone();
+      caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+    }
+    return response;
+  });
+}
@@ -4,11 +4,34 @@ import { PracticeEngine } from './practice-engine';
 import { UIController } from './ui-controller';
 import { SoundHandler } from './sound-handler';
 import { PlaybackEngine } from './playback-engine';
-import type { PracticeMode } from './shared/types';
+import { SessionStore } from './session-store';
+import { StatsDashboard } from './stats-dashboard';
+import { PerformanceRecorder } from './performance-recorder';
+import { VirtualInput, VIRTUAL_INPUT_ID } from './virtual-input';
+import { LatencyCalibrator } from './latency-calibrator';
+import { Metronome } from './metronome';
+import { SpeedTrainer } from './speed-trainer';
+import type { PracticeMode, LoopRange, TimingMode, TimingWindows, TimingGrade, MeasureStats, PracticeSession, MidiHandSplit, MidiDevice, SoundOutput, MidiInputHand, DynamicsFeedback, Instrument, MixerChannel, MixerChannelSettings, CountInBars, SpeedTrainerSettings, HumanizeSettings } from './shared/types';
 import { SimpleKeyboard } from './simple-keyboard';
 import * as Tone from 'tone';
 import confetti from '@hiseb/confetti';
 
+type TimingWindowPreset = 'strict' | 'normal' | 'relaxed';
+
+const TIMING_WINDOW_PRESETS: Record<TimingWindowPreset, TimingWindows> = {
+  strict: { onTime: 40, early: 120, late: 120 },
+  normal: { onTime: 75, early: 175, late: 175 },
+  relaxed: { onTime: 120, early: 250, late: 250 },
+};
+
+type HumanizePreset = 'off' | 'subtle' | 'natural';
+
+const HUMANIZE_PRESETS: Record<HumanizePreset, HumanizeSettings> = {
+  off: { timingMs: 0, velocity: 0, chordSpreadMs: 0 },
+  subtle: { timingMs: 8, velocity: 0.04, chordSpreadMs: 12 },
+  natural: { timingMs: 18, velocity: 0.08, chordSpreadMs: 25 },
+};
+
 interface AppConfig {
   practiceMode: PracticeMode;
   zoomLevel: number;
@@ -16,6 +39,31 @@ interface AppConfig {
   keyboardSize: number;
   showNoteNames: boolean;
   tempoMultiplier: number;
+  skipRepeats: boolean;
+  timingMode: TimingMode;
+  timingWindow: TimingWindowPreset;
+  showHeatmap: boolean;
+  midiHandSplit: MidiHandSplit;
+  playMidiInput: boolean;
+  gradePedal: boolean;
+  gradeDynamics: boolean;
+  midiOutputId: string;
+  soundOutput: SoundOutput;
+  instrument: Instrument; // What you play
+  accompanimentInstrument: Instrument; // Playback, the auto-played hand and previews
+  mixer: Record<MixerChannel, MixerChannelSettings>;
+  reverb: number; // 0-100
+  keyLightChannel: number;
+  midiInputs: Record<string, MidiInputHand | 'off'>; // Device id -> hand it plays
+  qwertyInput: boolean;
+  inputLatencyMs: number;
+  outputLatencyMs: number;
+  metronome: boolean;
+  countInBars: CountInBars;
+  fermataHold: number; // How many times its written length playback holds a fermata
+  humanize: HumanizePreset;
+  speedTrainer: boolean;
+  speedTrainerSettings: SpeedTrainerSettings;
 }
 
 class App {
@@ -26,8 +74,20 @@ class App {
   private soundHandler: SoundHandler;
   private playbackEngine!: PlaybackEngine;
   private keyboard!: SimpleKeyboard;
+  private sessionStore: SessionStore;
+  private statsDashboard: StatsDashboard;
+  private performanceRecorder: PerformanceRecorder;
+  private virtualInput: VirtualInput;
+  private latencyCalibrator: LatencyCalibrator;
+  private metronome: Metronome;
+  private speedTrainer: SpeedTrainer;
   private readonly CONFIG_KEY = 'piano-play-along-config';
   private readonly SCORE_KEY = 'piano-play-along-saved-score';
+  private readonly SCORE_NAME_KEY = 'piano-play-along-saved-score-name';
+  private readonly MEASURE_STATS_KEY = 'piano-play-along-measure-stats';
+  private readonly SPEED_RECORDS_KEY = 'piano-play-along-speed-records';
+  private currentScoreKey: string | null = null; // Identifies the loaded score in saved measure stats
+  private midiInputHands: Map<string, MidiInputHand> = new Map(); // Connected device id -> hand it plays
 
   constructor() {
     this.midiHandler = new MidiHandler();
@@ -35,27 +95,67 @@ class App {
     this.practiceEngine = new PracticeEngine();
     this.uiController = new UIController();
     this.soundHandler = new SoundHandler();
+    this.sessionStore = new SessionStore();
+    this.statsDashboard = new StatsDashboard(this.sessionStore);
+    this.performanceRecorder = new PerformanceRecorder();
+    this.virtualInput = new VirtualInput();
+    this.latencyCalibrator = new LatencyCalibrator(this.soundHandler);
+    this.metronome = new Metronome(this.soundHandler);
+    this.practiceEngine.setMetronome(this.metronome);
+    this.speedTrainer = new SpeedTrainer();
 
     this.initialize();
   }
 
   private getConfig(): AppConfig {
-    const stored = localStorage.getItem(this.CONFIG_KEY);
-    if (stored) {
-      try {
-        return JSON.parse(stored);
-      } catch (e) {
-        console.error('Failed to parse config:', e);
-      }
-    }
-    return {
+    const defaults: AppConfig = {
       practiceMode: 'both',
       zoomLevel: 1.25,
       voiceCommandsEnabled: true,
       keyboardSize: 135,
       showNoteNames: false,
       tempoMultiplier: 1.0,
+      skipRepeats: false,
+      timingMode: 'wait',
+      timingWindow: 'normal',
+      showHeatmap: false,
+      midiHandSplit: 'auto',
+      playMidiInput: false,
+      gradePedal: false,
+      gradeDynamics: false,
+      midiOutputId: '',
+      soundOutput: 'app',
+      instrument: 'grand-piano',
+      accompanimentInstrument: 'grand-piano',
+      mixer: {
+        right: { volume: 100, muted: false },
+        left: { volume: 100, muted: false },
+        live: { volume: 100, muted: false },
+        'auto-play': { volume: 100, muted: false },
+      },
+      reverb: 0,
+      keyLightChannel: 0,
+      midiInputs: {},
+      qwertyInput: false,
+      inputLatencyMs: 0,
+      outputLatencyMs: 0,
+      metronome: false,
+      countInBars: 0,
+      fermataHold: 2,
+      humanize: 'off',
+      speedTrainer: false,
+      speedTrainerSettings: { startMultiplier: 0.5, step: 0.1, targetMultiplier: 1.0 },
     };
+    const stored = localStorage.getItem(this.CONFIG_KEY);
+    if (stored) {
+      try {
+        // Merge with defaults so settings added later get a value
+        return { ...defaults, ...JSON.parse(stored) };
+      } catch (e) {
+        console.error('Failed to parse config:', e);
+      }
+    }
+    return defaults;
   }
 
   private saveConfig(updates: Partial<AppConfig>): void {
@@ -67,17 +167,35 @@ class App {
     return localStorage.getItem(this.SCORE_KEY);
   }
 
-  private saveScore(content: string): void {
+  /**
+   * File name the saved score was loaded from (null for scores saved before it was kept)
+   */
+  private getSavedScoreName(): string | null {
+    return localStorage.getItem(this.SCORE_NAME_KEY);
+  }
+
+  private saveScore(content: string, fileName: string): void {
     localStorage.setItem(this.SCORE_KEY, content);
+    localStorage.setItem(this.SCORE_NAME_KEY, fileName);
   }
 
   private clearSavedScore(): void {
     localStorage.removeItem(this.SCORE_KEY);
+    localStorage.removeItem(this.SCORE_NAME_KEY);
+  }
+
+  /**
+   * Key for the loaded score's saved stats, session history and speed records: its title, or
+   * the name of the file it came from. Loading a file and restoring it must give the same key.
+   */
+  private getScoreKey(fileName: string): string {
+    return this.scoreRenderer.getTitle() || fileName;
   }
 
   private async initialize(): Promise<void> {
     await this.initializeMidi();
     await this.initializeSound();
+    this.registerServiceWorker();
     this.initializeKeyboard();
     this.setupEventListeners();
     this.setupVoiceCommands();
@@ -107,30 +225,8 @@ class App {
           this.keyboard = new SimpleKeyboard(container);
           this.keyboard.setUseFlats(this.scoreRenderer.getUseFlats());
           
-          // Re-register keyboard click handler
-          this.keyboard.onNoteClick((note) => {
-            // Play the sound
-            const tempo = 120;
-            const msPerQuarterNote = 60000 / tempo;
-            const duration = 0.5 * msPerQuarterNote * 4 / 1000;
-            this.soundHandler.playNote(note, duration, 0.7);
-            
-            // Only handle as MIDI input if playback is not active
-            if (this.playbackEngine && !this.playbackEngine.getIsPlaying()) {
-              // Emulate MIDI note on
-              this.practiceEngine.handleNoteOn(note);
-              
-              const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
-              const isCorrect = expectedNotes.includes(note);
-              this.keyboard.keyDown(note, isCorrect);
-              
-              // Auto release after 200ms
-              setTimeout(() => {
-                this.practiceEngine.handleNoteOff(note);
-                this.keyboard.keyUp(note);
-              }, 200);
-            }
-          });
+          // Re-register keyboard input
+          this.connectKeyboardInput();
           
           // Restore highlighted notes
           const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
@@ -155,32 +251,8 @@ class App {
       console.log('initializeKeyboard: Set keyboard display to none');
     }
     
-    // Set up keyboard click handler to emulate MIDI
-    this.keyboard.onNoteClick((note) => {
-      console.log('Keyboard note click callback:', note);
-      
-      // Play the sound
-      const tempo = 120;
-      const msPerQuarterNote = 60000 / tempo;
-      const duration = 0.5 * msPerQuarterNote * 4 / 1000; // Quarter note duration
-      this.soundHandler.playNote(note, duration, 0.7);
-      
-      // Only handle as MIDI input if playback is not active
-      if (this.playbackEngine && !this.playbackEngine.getIsPlaying()) {
-        // Emulate MIDI note on
-        this.practiceEngine.handleNoteOn(note);
-        
-        const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
-        const isCorrect = expectedNotes.includes(note);
-        this.keyboard.keyDown(note, isCorrect);
-        
-        // Auto release after 200ms
-        setTimeout(() => {
-          this.practiceEngine.handleNoteOff(note);
-          this.keyboard.keyUp(note);
-        }, 200);
-      }
-    });
+    // Clicked keys play like a MIDI device
+    this.connectKeyboardInput();
   }
 
   private async initializeMidi(): Promise<void> {
@@ -189,6 +261,7 @@ class App {
       this.midiHandler.onDeviceChange((devices) => {
         console.log('MIDI devices detected:', devices);
         this.updateMidiDeviceList(devices);
+        this.updateMidiOutputList(this.midiHandler.getAvailableOutputs());
         
         // Show toast notification
         if (devices.length > 0) {
@@ -198,27 +271,18 @@ class App {
         }
       });
 
-      this.midiHandler.onNoteOn((note, velocity) => {
-        console.log('Note ON:', note, velocity);
-        
-        // Only handle MIDI input if playback is not active
-        if (!this.playbackEngine.getIsPlaying()) {
-          this.practiceEngine.handleNoteOn(note);
-        }
-        
-        const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
-        const isCorrect = expectedNotes.includes(note);
-        this.keyboard.keyDown(note, isCorrect);
-      });
+      this.midiHandler.onNoteOn((note, velocity, deviceId) => this.handleInputNoteOn(note, velocity, deviceId));
+      this.midiHandler.onNoteOff((note, deviceId) => this.handleInputNoteOff(note, deviceId));
+      
+      // The computer keyboard and on-screen keyboard play like another MIDI device
+      this.virtualInput.onNoteOn((note, velocity, deviceId) => this.handleInputNoteOn(note, velocity, deviceId));
+      this.virtualInput.onNoteOff((note, deviceId) => this.handleInputNoteOff(note, deviceId));
+      this.virtualInput.onOctaveChange((octave) => this.showToast(`Computer keyboard: A plays C${octave}`, 1500));
 
-      this.midiHandler.onNoteOff((note) => {
-        console.log('Note OFF:', note);
-        
-        // Only handle MIDI input if playback is not active
-        if (!this.playbackEngine.getIsPlaying()) {
-          this.practiceEngine.handleNoteOff(note);
-        }
-        this.keyboard.keyUp(note);
+      this.midiHandler.onPedal((pedal, down) => {
+        console.log('Pedal:', pedal, down ? 'down' : 'up');
+        this.soundHandler.setPedal(pedal, down);
+        this.practiceEngine.handlePedal(pedal, down);
       });
 
       // Now initialize MIDI
@@ -228,6 +292,7 @@ class App {
       this.practiceEngine.onProgress((state) => {
         const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
         this.uiController.updatePianoKeys(state, expectedNotes);
+        this.midiHandler.setKeyLights(expectedNotes);
         
         // Get current tempo from note group
         const currentGroup = state.score[state.currentNoteGroupIndex];
@@ -283,13 +348,53 @@ class App {
           const msPerQuarterNote = 60000 / tempo;
           const duration = note.duration * msPerQuarterNote * 4 / 1000; // Same calculation as playback
           console.log(`Playing auto note ${note.pitch} for ${duration}s`);
-          this.soundHandler.playNote(note.pitch, duration, note.velocity);
+          this.soundHandler.playNote(note.pitch, duration, note.velocity, note.hand);
         });
       });
       
+      // Show each play-along grade in the header
+      this.practiceEngine.onTimingGrade((grade) => {
+        this.updateTimingFeedback(grade);
+        if (grade.result === 'missed') {
+          this.scoreRenderer.markNoteErrors(grade.noteGroupIndex, [grade.pitch]);
+          this.saveMeasureStats();
+          this.updateHeatmap();
+        }
+      });
+      
+      // Mark wrong notes, extra notes, hesitations and pedal mistakes red on the score
+      this.practiceEngine.onMistake((mistake) => {
+        this.scoreRenderer.markNoteErrors(mistake.noteGroupIndex, mistake.expectedNotes);
+        if (mistake.type === 'pedal') {
+          this.showToast(`Pedal ${mistake.pedalDown ? 'down' : 'up'} here`, 1500);
+        }
+        this.saveMeasureStats();
+        this.updateHeatmap();
+      });
+      
+      // Each pass of the loop or piece keeps its best clean tempo and drives the speed trainer
+      this.practiceEngine.onPassComplete((mistakes) => {
+        this.handlePass(mistakes);
+      });
+      
       // Setup practice completion callback
       this.practiceEngine.onComplete(() => {
         console.log('Practice score completed!');
+        this.saveMeasureStats();
+        const dynamics = this.practiceEngine.getDynamicsFeedback();
+        this.finishSession(true);
+        
+        const summary: string[] = [];
+        if (this.practiceEngine.getTimingMode() === 'timed') {
+          const stats = this.practiceEngine.getTimingStats();
+          summary.push(`On time: ${stats['on-time']} · Early: ${stats.early} · Late: ${stats.late} · Missed: ${stats.missed}`);
+        }
+        if (this.getConfig().gradeDynamics) {
+          summary.push(dynamics.length > 0 ? dynamics.slice(0, 2).map(item => this.describeDynamicsFeedback(item)).join(' · ') : 'Dynamics: well shaped');
+        }
+        if (summary.length > 0) {
+          this.showToast(summary.join(' — '), 6000);
+        }
         
         // Throw confetti!
         confetti({
@@ -310,12 +415,15 @@ class App {
     try {
       await this.soundHandler.initialize();
       this.scoreRenderer.setSoundHandler(this.soundHandler);
+      this.soundHandler.setMidiOutput(this.midiHandler);
       this.playbackEngine = new PlaybackEngine(this.soundHandler);
+      this.playbackEngine.setOutputLatency(this.getConfig().outputLatencyMs);
+      this.playbackEngine.setMetronome(this.metronome);
       
       // Setup playback callbacks
-      this.playbackEngine.onProgress((index) => {
+      this.playbackEngine.onProgress((index, position) => {
         this.scoreRenderer.moveCursorToNoteGroup(index);
-        this.practiceEngine.jumpToNoteGroup(index);
+        this.practiceEngine.jumpToPlaybackPosition(position);
       });
       
       this.playbackEngine.onComplete(() => {
@@ -343,14 +451,39 @@ class App {
       });
       
       console.log('Sound initialized');
+      if (this.soundHandler.isUsingFallbackPiano()) {
+        this.showToast('⚠ Piano samples unavailable - using a synthesized piano');
+      }
     } catch (error) {
       console.error('Failed to initialize sound:', error);
     }
   }
 
+  /**
+   * Cache the app and piano samples for offline use (production builds only, so the dev
+   * server's hot reload isn't served from the cache)
+   */
+  private registerServiceWorker(): void {
+    if (!('serviceWorker' in navigator) || import.meta.env.DEV) return;
+
+    navigator.serviceWorker.register('./sw.js').then(() => navigator.serviceWorker.ready).then(registration => {
+      // Files loaded before the worker took control aren't in its cache yet
+      const urls = [location.href, ...performance.getEntriesByType('resource').map(entry => entry.name)]
+        .filter(url => new URL(url).origin === location.origin);
+      registration.active?.postMessage({ type: 'cache-urls', urls });
+    }).catch(error => {
+      console.error('Failed to register service worker:', error);
+    });
+  }
+
   private setupEventListeners(): void {
     const config = this.getConfig();
     
+    // Score: drag across measures to loop them
+    this.scoreRenderer.onLoopSelect((startMeasure, endMeasure) => {
+      this.setLoop({ startMeasure, endMeasure });
+    });
+    
     // Header: Close button
     document.getElementById('close-score-btn')?.addEventListener('click', () => {
       if (this.playbackEngine.getIsPlaying()) {
@@ -366,6 +499,21 @@ class App {
       fileInput?.click();
     });
     
+    // List header: Practice statistics (swaps with the score library)
+    const statsBtn = document.getElementById('stats-btn');
+    statsBtn?.addEventListener('click', async () => {
+      if (this.statsDashboard.isVisible()) {
+        this.hideStatsDashboard();
+        return;
+      }
+      
+      const loadingMessage = document.getElementById('loading-message');
+      if (loadingMessage) loadingMessage.style.display = 'none';
+      statsBtn.classList.add('active');
+      await this.statsDashboard.show();
+    });
+    this.statsDashboard.onClose(() => this.hideStatsDashboard());
+    
     fileInput?.addEventListener('change', async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
@@ -398,7 +546,9 @@ class App {
     
     // Header: Reset button
     document.getElementById('header-reset-btn')?.addEventListener('click', () => {
+      this.finishSession(false);
       this.practiceEngine.reset();
+      this.scoreRenderer.clearNoteErrors();
       this.scoreRenderer.resetCursor();
       this.practiceEngine.start();
       if (this.playbackEngine.getIsPlaying()) {
@@ -415,17 +565,10 @@ class App {
     const headerTempoSlider = document.getElementById('header-tempo-slider') as HTMLInputElement;
     const headerTempoValue = document.getElementById('header-tempo-value');
     if (headerTempoSlider && headerTempoValue) {
-      headerTempoSlider.value = config.tempoMultiplier.toString();
-      headerTempoValue.textContent = config.tempoMultiplier === 1.0 ? '1x' : `${config.tempoMultiplier.toFixed(1)}x`;
-      this.playbackEngine.setTempoMultiplier(config.tempoMultiplier);
+      this.setTempoMultiplier(config.tempoMultiplier);
       
       headerTempoSlider.addEventListener('input', (e) => {
-        const multiplier = parseFloat((e.target as HTMLInputElement).value);
-        if (headerTempoValue) {
-          headerTempoValue.textContent = multiplier === 1.0 ? '1x' : `${multiplier.toFixed(1)}x`;
-        }
-        this.playbackEngine.setTempoMultiplier(multiplier);
-        this.saveConfig({ tempoMultiplier: multiplier });
+        this.setTempoMultiplier(parseFloat((e.target as HTMLInputElement).value));
       });
     }
     
@@ -437,11 +580,25 @@ class App {
       
       headerPracticeMode.addEventListener('change', (e) => {
         const mode = (e.target as HTMLSelectElement).value as PracticeMode;
+        this.finishSession(false);
         this.practiceEngine.setPracticeMode(mode);
+        this.scoreRenderer.clearNoteErrors();
         this.saveConfig({ practiceMode: mode });
       });
     }
     
+    // Header: Timing mode (wait for notes / play along)
+    const headerTimingMode = document.getElementById('header-timing-mode') as HTMLSelectElement;
+    if (headerTimingMode) {
+      headerTimingMode.value = config.timingMode;
+      this.practiceEngine.setTimingMode(config.timingMode);
+      this.updateTimingFeedback(null);
+      
+      headerTimingMode.addEventListener('change', (e) => {
+        this.setTimingMode((e.target as HTMLSelectElement).value as TimingMode);
+      });
+    }
+    
     // Header: Show note names button
     const headerShowNotesBtn = document.getElementById('header-show-notes-btn');
     if (headerShowNotesBtn) {
@@ -459,6 +616,51 @@ class App {
       });
     }
     
+    // Header: Mistake heatmap button
+    const headerHeatmapBtn = document.getElementById('header-heatmap-btn');
+    if (headerHeatmapBtn) {
+      headerHeatmapBtn.classList.toggle('active', config.showHeatmap);
+      
+      headerHeatmapBtn.addEventListener('click', () => {
+        const show = !this.getConfig().showHeatmap;
+        this.saveConfig({ showHeatmap: show });
+        headerHeatmapBtn.classList.toggle('active', show);
+        this.updateHeatmap();
+        this.showToast(show ? 'Mistake heatmap shown' : 'Mistake heatmap hidden');
+      });
+    }
+    
+    // Header: Metronome button
+    const headerMetronomeBtn = document.getElementById('header-metronome-btn');
+    if (headerMetronomeBtn) {
+      headerMetronomeBtn.classList.toggle('active', config.metronome);
+      this.metronome.setEnabled(config.metronome);
+      
+      headerMetronomeBtn.addEventListener('click', () => {
+        this.setMetronomeEnabled(!this.metronome.isEnabled());
+      });
+    }
+    
+    // Header: Export the last take as a MIDI file
+    document.getElementById('header-export-btn')?.addEventListener('click', () => {
+      this.exportPerformance();
+    });
+    
+    // Settings panel: Clear mistake history for this score
+    document.getElementById('clear-heatmap-btn')?.addEventListener('click', () => {
+      this.practiceEngine.setMeasureStats(new Map());
+      this.saveMeasureStats();
+      this.updateHeatmap();
+      this.showToast('Mistake history cleared');
+    });
+    
+    // Save mistake totals and the unfinished session, and silence everything, when leaving the page
+    window.addEventListener('pagehide', () => {
+      this.saveMeasureStats();
+      this.finishSession(false);
+      this.soundHandler.stopAllNotes();
+    });
+    
     // Header: Voice toggle button
     const voiceToggleBtn = document.getElementById('voice-toggle-btn');
     if (voiceToggleBtn) {
@@ -480,16 +682,143 @@ class App {
       settingsToggleBtn.classList.toggle('active', isOpen);
     });
     
-    // Settings panel: MIDI device
-    const midiSelect = document.getElementById('midi-device-select') as HTMLSelectElement;
-    midiSelect?.addEventListener('change', (e) => {
+    // Settings panel: MIDI devices, each off or playing both hands, the right or the left
+    const midiInputList = document.getElementById('midi-input-list');
+    midiInputList?.addEventListener('change', (e) => {
+      const select = e.target as HTMLSelectElement;
+      const deviceId = select.dataset.deviceId;
+      if (!deviceId) return;
+      
+      // Save every listed device, so defaults don't shift when devices are plugged in later
+      const midiInputs = { ...this.getConfig().midiInputs };
+      midiInputList.querySelectorAll<HTMLSelectElement>('select[data-device-id]').forEach(deviceSelect => {
+        midiInputs[deviceSelect.dataset.deviceId!] = deviceSelect.value as MidiInputHand | 'off';
+      });
+      this.saveConfig({ midiInputs });
+      this.applyMidiInputs();
+      
+      const device = this.midiHandler.getAvailableDevices().find(d => d.id === deviceId);
+      this.showToast(`MIDI: ${device?.name} - ${select.options[select.selectedIndex].text}`);
+    });
+    
+    // Settings panel: MIDI output (the list is filled when devices are detected)
+    const midiOutputSelect = document.getElementById('midi-output-select') as HTMLSelectElement;
+    midiOutputSelect?.addEventListener('change', (e) => {
       const deviceId = (e.target as HTMLSelectElement).value;
-      if (deviceId) {
-        this.midiHandler.selectDevice(deviceId);
-        const devices = this.midiHandler.getAvailableDevices();
-        const device = devices.find(d => d.id === deviceId);
-        this.showToast(`MIDI: ${device?.name}`);
-      }
+      this.midiHandler.selectOutput(deviceId);
+      this.midiHandler.setKeyLights(this.practiceEngine.getCurrentExpectedNotes());
+      this.saveConfig({ midiOutputId: deviceId });
+      
+      const output = this.midiHandler.getAvailableOutputs().find(d => d.id === deviceId);
+      this.showToast(output ? `MIDI output: ${output.name}` : 'MIDI output off');
+    });
+    
+    // Settings panel: Where playback and auto-play sound
+    const soundOutputSelect = document.getElementById('sound-output-select') as HTMLSelectElement;
+    if (soundOutputSelect) {
+      soundOutputSelect.value = config.soundOutput;
+      this.soundHandler.setOutputMode(config.soundOutput);
+      
+      soundOutputSelect.addEventListener('change', (e) => {
+        const soundOutput = (e.target as HTMLSelectElement).value as SoundOutput;
+        this.soundHandler.stopAccompaniment();
+        this.soundHandler.setOutputMode(soundOutput);
+        this.saveConfig({ soundOutput });
+      });
+    }
+    
+    // Settings panel: Instruments for your playing and for the accompaniment
+    const instrumentSelect = document.getElementById('instrument-select') as HTMLSelectElement;
+    if (instrumentSelect) {
+      instrumentSelect.value = config.instrument;
+      this.soundHandler.setInstrument(config.instrument);
+      
+      instrumentSelect.addEventListener('change', (e) => {
+        const instrument = (e.target as HTMLSelectElement).value as Instrument;
+        this.soundHandler.setInstrument(instrument);
+        this.saveConfig({ instrument });
+      });
+    }
+    
+    const accompanimentSelect = document.getElementById('accompaniment-instrument-select') as HTMLSelectElement;
+    if (accompanimentSelect) {
+      accompanimentSelect.value = config.accompanimentInstrument;
+      this.soundHandler.setAccompanimentInstrument(config.accompanimentInstrument);
+      
+      accompanimentSelect.addEventListener('change', (e) => {
+        const accompanimentInstrument = (e.target as HTMLSelectElement).value as Instrument;
+        this.soundHandler.setAccompanimentInstrument(accompanimentInstrument);
+        this.saveConfig({ accompanimentInstrument });
+      });
+    }
+    
+    // Settings panel: Mixer volume and mute for each channel
+    document.querySelectorAll<HTMLElement>('.mixer-row').forEach(row => {
+      const channel = row.dataset.channel as MixerChannel;
+      const volumeSlider = row.querySelector('.mixer-volume') as HTMLInputElement;
+      const muteBtn = row.querySelector('.mixer-mute') as HTMLButtonElement;
+      const settings = config.mixer[channel];
+      volumeSlider.value = settings.volume.toString();
+      muteBtn.classList.toggle('active', settings.muted);
+      this.soundHandler.setMixerChannel(channel, settings);
+      
+      const update = () => {
+        const channelSettings = { volume: parseInt(volumeSlider.value), muted: muteBtn.classList.contains('active') };
+        this.soundHandler.setMixerChannel(channel, channelSettings);
+        this.saveConfig({ mixer: { ...this.getConfig().mixer, [channel]: channelSettings } });
+      };
+      volumeSlider.addEventListener('input', update);
+      muteBtn.addEventListener('click', () => {
+        muteBtn.classList.toggle('active');
+        update();
+      });
+    });
+    
+    // Settings panel: Reverb over everything the app plays
+    const reverbSlider = document.getElementById('reverb-slider') as HTMLInputElement;
+    if (reverbSlider) {
+      reverbSlider.value = config.reverb.toString();
+      this.soundHandler.setReverb(config.reverb);
+      
+      reverbSlider.addEventListener('input', (e) => {
+        const reverb = parseInt((e.target as HTMLInputElement).value);
+        this.soundHandler.setReverb(reverb);
+        this.saveConfig({ reverb });
+      });
+    }
+    
+    // Settings panel: Key lights on the MIDI output
+    const keyLightSelect = document.getElementById('key-light-select') as HTMLSelectElement;
+    if (keyLightSelect) {
+      keyLightSelect.value = config.keyLightChannel.toString();
+      this.midiHandler.setKeyLightChannel(config.keyLightChannel);
+      
+      keyLightSelect.addEventListener('change', (e) => {
+        const channel = parseInt((e.target as HTMLSelectElement).value);
+        this.midiHandler.setKeyLightChannel(channel);
+        this.midiHandler.setKeyLights(this.practiceEngine.getCurrentExpectedNotes());
+        this.saveConfig({ keyLightChannel: channel });
+      });
+    }
+    
+    // Settings panel: Latency calibration
+    const latencyValues = document.getElementById('latency-values');
+    const showLatency = (inputMs: number, outputMs: number) => {
+      if (latencyValues) latencyValues.textContent = `In ${inputMs} ms · Out ${outputMs} ms`;
+    };
+    showLatency(config.inputLatencyMs, config.outputLatencyMs);
+    this.practiceEngine.setLatency(config.inputLatencyMs, config.outputLatencyMs);
+    
+    document.getElementById('latency-calibrate-btn')?.addEventListener('click', () => {
+      this.latencyCalibrator.show();
+    });
+    
+    this.latencyCalibrator.onSave(({ inputLatencyMs, outputLatencyMs }) => {
+      this.practiceEngine.setLatency(inputLatencyMs, outputLatencyMs);
+      this.playbackEngine?.setOutputLatency(outputLatencyMs);
+      this.saveConfig({ inputLatencyMs, outputLatencyMs });
+      showLatency(inputLatencyMs, outputLatencyMs);
+      this.showToast(`✓ Latency saved: input ${inputLatencyMs} ms, output ${outputLatencyMs} ms`);
     });
     
     // Settings panel: Zoom
@@ -504,6 +833,173 @@ class App {
       });
     }
     
+    // Settings panel: Repeats
+    const repeatsSelect = document.getElementById('repeats-select') as HTMLSelectElement;
+    if (repeatsSelect) {
+      repeatsSelect.value = config.skipRepeats ? 'skip' : 'play';
+      this.scoreRenderer.getRepeatHandler().setSkipRepeats(config.skipRepeats);
+      
+      repeatsSelect.addEventListener('change', (e) => {
+        const skip = (e.target as HTMLSelectElement).value === 'skip';
+        this.setSkipRepeats(skip);
+      });
+    }
+    
+    // Settings panel: Timing window
+    const timingWindowSelect = document.getElementById('timing-window-select') as HTMLSelectElement;
+    if (timingWindowSelect) {
+      timingWindowSelect.value = config.timingWindow;
+      this.practiceEngine.setTimingWindows(TIMING_WINDOW_PRESETS[config.timingWindow]);
+      
+      timingWindowSelect.addEventListener('change', (e) => {
+        const preset = (e.target as HTMLSelectElement).value as TimingWindowPreset;
+        this.practiceEngine.setTimingWindows(TIMING_WINDOW_PRESETS[preset]);
+        this.saveConfig({ timingWindow: preset });
+      });
+    }
+    
+    // Settings panel: Count-in bars before playback and play along
+    const countInSelect = document.getElementById('count-in-select') as HTMLSelectElement;
+    if (countInSelect) {
+      countInSelect.value = config.countInBars.toString();
+      this.metronome.setCountInBars(config.countInBars);
+      
+      countInSelect.addEventListener('change', (e) => {
+        const countInBars = parseInt((e.target as HTMLSelectElement).value) as CountInBars;
+        this.metronome.setCountInBars(countInBars);
+        this.saveConfig({ countInBars });
+      });
+    }
+    
+    // Settings panel: Fermata hold in playback
+    const fermataHoldSelect = document.getElementById('fermata-hold-select') as HTMLSelectElement;
+    if (fermataHoldSelect) {
+      fermataHoldSelect.value = config.fermataHold.toString();
+      this.playbackEngine?.setFermataHold(config.fermataHold);
+      
+      fermataHoldSelect.addEventListener('change', (e) => {
+        const fermataHold = parseFloat((e.target as HTMLSelectElement).value);
+        this.playbackEngine?.setFermataHold(fermataHold);
+        this.saveConfig({ fermataHold });
+      });
+    }
+    
+    // Settings panel: Humanize playback
+    const humanizeSelect = document.getElementById('humanize-select') as HTMLSelectElement;
+    if (humanizeSelect) {
+      humanizeSelect.value = config.humanize;
+      this.playbackEngine?.setHumanize(HUMANIZE_PRESETS[config.humanize]);
+      
+      humanizeSelect.addEventListener('change', (e) => {
+        const humanize = (e.target as HTMLSelectElement).value as HumanizePreset;
+        this.playbackEngine?.setHumanize(HUMANIZE_PRESETS[humanize]);
+        this.saveConfig({ humanize });
+      });
+    }
+    
+    // Settings panel: Speed trainer
+    const speedTrainerSelect = document.getElementById('speed-trainer-select') as HTMLSelectElement;
+    const speedTrainerStartSelect = document.getElementById('speed-trainer-start-select') as HTMLSelectElement;
+    const speedTrainerStepSelect = document.getElementById('speed-trainer-step-select') as HTMLSelectElement;
+    const speedTrainerTargetSelect = document.getElementById('speed-trainer-target-select') as HTMLSelectElement;
+    if (speedTrainerSelect && speedTrainerStartSelect && speedTrainerStepSelect && speedTrainerTargetSelect) {
+      speedTrainerSelect.value = config.speedTrainer ? 'on' : 'off';
+      speedTrainerStartSelect.value = config.speedTrainerSettings.startMultiplier.toString();
+      speedTrainerStepSelect.value = config.speedTrainerSettings.step.toString();
+      speedTrainerTargetSelect.value = config.speedTrainerSettings.targetMultiplier.toString();
+      this.speedTrainer.setEnabled(config.speedTrainer);
+      this.speedTrainer.setSettings(config.speedTrainerSettings);
+      
+      speedTrainerSelect.addEventListener('change', (e) => {
+        const enabled = (e.target as HTMLSelectElement).value === 'on';
+        this.speedTrainer.setEnabled(enabled);
+        this.saveConfig({ speedTrainer: enabled });
+        if (enabled) {
+          // Each run of the trainer starts slow
+          const { startMultiplier, targetMultiplier } = this.speedTrainer.getSettings();
+          this.setTempoMultiplier(startMultiplier);
+          this.showToast(`Speed trainer: ${this.formatTempoMultiplier(startMultiplier)} up to ${this.formatTempoMultiplier(targetMultiplier)}`);
+        } else {
+          this.showToast('Speed trainer off');
+        }
+      });
+      
+      const updateSettings = () => {
+        const speedTrainerSettings: SpeedTrainerSettings = {
+          startMultiplier: parseFloat(speedTrainerStartSelect.value),
+          step: parseFloat(speedTrainerStepSelect.value),
+          targetMultiplier: parseFloat(speedTrainerTargetSelect.value),
+        };
+        this.speedTrainer.setSettings(speedTrainerSettings);
+        this.saveConfig({ speedTrainerSettings });
+      };
+      speedTrainerStartSelect.addEventListener('change', updateSettings);
+      speedTrainerStepSelect.addEventListener('change', updateSettings);
+      speedTrainerTargetSelect.addEventListener('change', updateSettings);
+    }
+    
+    // Settings panel: MIDI file hand split (used when the next MIDI file is loaded)
+    const midiHandSplitSelect = document.getElementById('midi-hand-split-select') as HTMLSelectElement;
+    if (midiHandSplitSelect) {
+      midiHandSplitSelect.value = config.midiHandSplit;
+      this.scoreRenderer.setMidiHandSplit(config.midiHandSplit);
+      
+      midiHandSplitSelect.addEventListener('change', (e) => {
+        const handSplit = (e.target as HTMLSelectElement).value as MidiHandSplit;
+        this.scoreRenderer.setMidiHandSplit(handSplit);
+        this.saveConfig({ midiHandSplit: handSplit });
+      });
+    }
+    
+    // Settings panel: Play notes on the computer keyboard
+    const qwertyInputSelect = document.getElementById('qwerty-input-select') as HTMLSelectElement;
+    if (qwertyInputSelect) {
+      qwertyInputSelect.value = config.qwertyInput ? 'on' : 'off';
+      this.virtualInput.setQwertyEnabled(config.qwertyInput);
+      
+      qwertyInputSelect.addEventListener('change', (e) => {
+        const qwertyInput = (e.target as HTMLSelectElement).value === 'on';
+        this.virtualInput.setQwertyEnabled(qwertyInput);
+        this.saveConfig({ qwertyInput });
+      });
+    }
+    
+    // Settings panel: Sound the MIDI keyboard through the app's piano
+    const midiInputSoundSelect = document.getElementById('midi-input-sound-select') as HTMLSelectElement;
+    if (midiInputSoundSelect) {
+      midiInputSoundSelect.value = config.playMidiInput ? 'on' : 'off';
+      
+      midiInputSoundSelect.addEventListener('change', (e) => {
+        this.saveConfig({ playMidiInput: (e.target as HTMLSelectElement).value === 'on' });
+      });
+    }
+    
+    // Settings panel: Check the sustain pedal against the score's pedal markings
+    const pedalGradingSelect = document.getElementById('pedal-grading-select') as HTMLSelectElement;
+    if (pedalGradingSelect) {
+      pedalGradingSelect.value = config.gradePedal ? 'check' : 'ignore';
+      this.practiceEngine.setPedalGrading(config.gradePedal);
+      
+      pedalGradingSelect.addEventListener('change', (e) => {
+        const gradePedal = (e.target as HTMLSelectElement).value === 'check';
+        this.practiceEngine.setPedalGrading(gradePedal);
+        this.saveConfig({ gradePedal });
+      });
+    }
+    
+    // Settings panel: Check played velocities against the score's dynamics
+    const dynamicsGradingSelect = document.getElementById('dynamics-grading-select') as HTMLSelectElement;
+    if (dynamicsGradingSelect) {
+      dynamicsGradingSelect.value = config.gradeDynamics ? 'check' : 'ignore';
+      this.practiceEngine.setDynamicsGrading(config.gradeDynamics);
+      
+      dynamicsGradingSelect.addEventListener('change', (e) => {
+        const gradeDynamics = (e.target as HTMLSelectElement).value === 'check';
+        this.practiceEngine.setDynamicsGrading(gradeDynamics);
+        this.saveConfig({ gradeDynamics });
+      });
+    }
+    
     // Settings panel: Keyboard size
     const keyboardSizeSelect = document.getElementById('keyboard-size-select') as HTMLSelectElement;
     
@@ -524,6 +1020,11 @@ class App {
         return;
       }
       
+      // Keys the computer keyboard plays notes with aren't shortcuts
+      if (this.virtualInput.handlesKey(e)) {
+        return;
+      }
+      
       if (e.key === ' ') {
         e.preventDefault();
         if (this.playbackEngine.getIsPlaying()) {
@@ -544,6 +1045,28 @@ class App {
             headerPlayBtn.classList.add('active');
           }
         }
+      } else if (e.key === 'm' || e.key === 'M') {
+        e.preventDefault();
+        this.setMetronomeEnabled(!this.metronome.isEnabled());
+      } else if (e.key === 'l' || e.key === 'L') {
+        // Toggle a loop on the current measure
+        e.preventDefault();
+        if (this.practiceEngine.getLoop()) {
+          this.setLoop(null);
+        } else {
+          const measure = this.practiceEngine.getCurrentMeasure() - 1;
+          this.setLoop({ startMeasure: measure, endMeasure: measure });
+        }
+      } else if (e.key === '[' || e.key === ']') {
+        // Set the loop start/end to the current measure
+        e.preventDefault();
+        const measure = this.practiceEngine.getCurrentMeasure() - 1;
+        const loop = this.practiceEngine.getLoop();
+        if (e.key === '[') {
+          this.setLoop({ startMeasure: measure, endMeasure: Math.max(measure, loop?.endMeasure ?? measure) });
+        } else {
+          this.setLoop({ startMeasure: Math.min(measure, loop?.startMeasure ?? measure), endMeasure: measure });
+        }
       } else if (e.key === 'ArrowRight') {
         e.preventDefault();
         const state = this.practiceEngine.getState();
@@ -614,27 +1137,138 @@ class App {
     });
   }
 
-  private updateMidiDeviceList(devices: any[]): void {
-    const select = document.getElementById('midi-device-select') as HTMLSelectElement;
-    if (!select) return;
+  /**
+   * A key pressed on a MIDI device or the virtual input
+   */
+  private handleInputNoteOn(note: number, velocity: number, deviceId: string): void {
+    console.log('Note ON:', note, velocity, deviceId);
+    
+    // Key presses are taps while calibrating
+    if (this.latencyCalibrator.isVisible()) {
+      this.latencyCalibrator.tap();
+      return;
+    }
+    const hand = this.midiInputHands.get(deviceId) || 'both';
+    
+    // Only handle input if playback is not active
+    if (!this.playbackEngine?.getIsPlaying()) {
+      if (this.currentScoreKey) {
+        this.performanceRecorder.noteOn(note, velocity, hand === 'both' ? this.getHandForNote(note) : hand);
+      }
+      // The virtual input's fixed velocity says nothing about dynamics
+      this.practiceEngine.handleNoteOn(note, hand, deviceId === VIRTUAL_INPUT_ID ? undefined : velocity);
+    }
+    
+    // The virtual input has no sound of its own
+    if (deviceId === VIRTUAL_INPUT_ID || this.getConfig().playMidiInput) {
+      this.soundHandler.liveNoteOn(note, velocity / 127);
+    }
+    
+    const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
+    const isCorrect = expectedNotes.includes(note);
+    this.keyboard.keyDown(note, isCorrect);
+  }
+
+  private handleInputNoteOff(note: number, deviceId: string): void {
+    console.log('Note OFF:', note, deviceId);
+    this.performanceRecorder.noteOff(note);
+    
+    if (deviceId === VIRTUAL_INPUT_ID || this.getConfig().playMidiInput) {
+      this.soundHandler.liveNoteOff(note);
+    }
+    
+    // Only handle input if playback is not active
+    if (!this.playbackEngine?.getIsPlaying()) {
+      this.practiceEngine.handleNoteOff(note, this.midiInputHands.get(deviceId) || 'both');
+    }
+    this.keyboard.keyUp(note);
+  }
+
+  /**
+   * Clicks on the on-screen keyboard go through the virtual input and hold until released
+   */
+  private connectKeyboardInput(): void {
+    this.keyboard.onNoteClick((note) => this.virtualInput.noteOn(note));
+    this.keyboard.onNoteRelease((note) => this.virtualInput.noteOff(note));
+  }
+
+  private updateMidiDeviceList(devices: MidiDevice[]): void {
+    const list = document.getElementById('midi-input-list');
+    if (!list) return;
+
+    const { midiInputs } = this.getConfig();
+    list.innerHTML = devices.length === 0 ? '<div class="setting-row"><label>No MIDI device</label></div>' : '';
+
+    devices.forEach((device, index) => {
+      const row = document.createElement('div');
+      row.className = 'setting-row midi-input-row';
+
+      const label = document.createElement('label');
+      label.textContent = device.name;
+      label.title = device.name;
+
+      const select = document.createElement('select');
+      select.className = 'select';
+      select.dataset.deviceId = device.id;
+      select.innerHTML = `
+        <option value="off">Off</option>
+        <option value="both">Both hands</option>
+        <option value="right">Right hand</option>
+        <option value="left">Left hand</option>
+      `;
+      // Devices without a saved choice: the first plays both hands, the others are off
+      select.value = midiInputs[device.id] || (index === 0 ? 'both' : 'off');
+
+      row.append(label, select);
+      list.appendChild(row);
+    });
 
-    // Clear existing options except the first one
-    select.innerHTML = '<option value="">Select MIDI device</option>';
+    this.applyMidiInputs();
+  }
+
+  /**
+   * Connect the devices chosen in the settings list and disconnect the rest
+   */
+  private applyMidiInputs(): void {
+    const selects = document.querySelectorAll<HTMLSelectElement>('#midi-input-list select[data-device-id]');
+    const hands = new Map<string, MidiInputHand>();
+    selects.forEach(select => {
+      if (select.value !== 'off') hands.set(select.dataset.deviceId!, select.value as MidiInputHand);
+    });
+
+    this.midiHandler.getConnectedDeviceIds()
+      .filter(id => !hands.has(id))
+      .forEach(id => this.midiHandler.disconnectDevice(id));
+    hands.forEach((_hand, id) => this.midiHandler.connectDevice(id));
+    this.midiInputHands = hands;
+
+    const names = this.midiHandler.getAvailableDevices()
+      .filter(device => hands.has(device.id))
+      .map(device => device.name);
+    this.uiController.updateMidiStatus(names.length > 0, names.join(' + '));
+  }
 
-    devices.forEach(device => {
+  private updateMidiOutputList(outputs: MidiDevice[]): void {
+    const select = document.getElementById('midi-output-select') as HTMLSelectElement;
+    if (!select) return;
+
+    select.innerHTML = '<option value="">None</option>';
+    outputs.forEach(output => {
       const option = document.createElement('option');
-      option.value = device.id;
-      option.textContent = device.name;
+      option.value = output.id;
+      option.textContent = output.name;
       select.appendChild(option);
     });
+    select.disabled = outputs.length === 0;
 
-    select.disabled = devices.length === 0;
-    
-    // Auto-select first device
-    if (devices.length > 0) {
-      select.value = devices[0].id;
-      this.midiHandler.selectDevice(devices[0].id);
-      this.uiController.updateMidiStatus(true, devices[0].name);
+    // Reconnect the saved output when it's available, and let go of it when it's unplugged
+    const { midiOutputId } = this.getConfig();
+    const available = outputs.some(output => output.id === midiOutputId);
+    const outputId = available ? midiOutputId : '';
+    select.value = outputId;
+    if (outputId !== this.midiHandler.getSelectedOutputId()) {
+      this.midiHandler.selectOutput(outputId);
+      this.midiHandler.setKeyLights(this.practiceEngine.getCurrentExpectedNotes());
     }
   }
 
@@ -642,6 +1276,12 @@ class App {
     try {
       console.log('loadScore: Starting...');
       
+      // Record the run on the previous score before it is replaced
+      this.finishSession(false);
+      this.performanceRecorder.clear();
+      this.statsDashboard.hide();
+      document.getElementById('stats-btn')?.classList.remove('active');
+      
       // Hide score library
       const loadingMessage = document.getElementById('loading-message');
       if (loadingMessage) loadingMessage.style.display = 'none';
@@ -669,8 +1309,12 @@ class App {
       console.log('loadScore: Waited 100ms for UI update');
       
       // For .mxl files, we need to store the binary data
-      let content: string;
-      if (file.name.toLowerCase().endsWith('.mxl')) {
+      let content: string | null;
+      const isMidiFile = /\.midi?$/i.test(file.name);
+      if (isMidiFile) {
+        // MIDI files are saved as the MusicXML generated from them, once loaded
+        content = null;
+      } else if (file.name.toLowerCase().endsWith('.mxl')) {
         // Store as base64 for binary data
         const arrayBuffer = await file.arrayBuffer();
         const bytes = new Uint8Array(arrayBuffer);
@@ -681,7 +1325,7 @@ class App {
       }
       
       // Save score
-      this.saveScore(content);
+      if (content !== null) this.saveScore(content, file.name);
       
       // Apply saved zoom level before loading
       const config = this.getConfig();
@@ -691,6 +1335,7 @@ class App {
       console.log('loadScore: About to call scoreRenderer.loadScore');
       await this.scoreRenderer.loadScore(file);
       console.log('loadScore: scoreRenderer.loadScore completed');
+      if (isMidiFile) this.saveScore(this.scoreRenderer.getMusicXML(), file.name);
       
       // Remove loading overlay
       const loadingOverlay = document.getElementById('score-loading-overlay');
@@ -703,13 +1348,27 @@ class App {
       const tempo = this.scoreRenderer.getTempo();
       const repeatHandler = this.scoreRenderer.getRepeatHandler();
       
-      this.practiceEngine.loadScore(noteGroups, repeatHandler);
-      this.playbackEngine.loadScore(noteGroups, repeatHandler);
+      this.practiceEngine.loadScore(noteGroups, repeatHandler, this.scoreRenderer.getTempoMap());
+      this.playbackEngine.loadScore(noteGroups, repeatHandler, this.scoreRenderer.getTempoMap());
       this.playbackEngine.setTempo(tempo);
+      this.playbackEngine.setPedalMarkings(this.scoreRenderer.getPedalMarkings());
+      this.playbackEngine.setFermatas(this.scoreRenderer.getFermatas());
+      this.playbackEngine.setSwingMarkings(this.scoreRenderer.getSwingMarkings());
+      this.practiceEngine.setPedalMarkings(this.scoreRenderer.getPedalMarkings());
+      this.metronome.setTempoMap(this.scoreRenderer.getTempoMap());
+      this.practiceEngine.setDynamicMarkings(this.scoreRenderer.getDynamicMarkings());
+      
+      // Bring back mistakes from earlier sessions with this score
+      this.currentScoreKey = this.getScoreKey(file.name);
+      this.loadMeasureStats();
+      this.updateBestCleanTempo();
       
       // Set up note click handler
       this.scoreRenderer.onNoteClick((index) => {
         this.practiceEngine.jumpToNoteGroup(index);
+        if (this.playbackEngine.getIsPlaying()) {
+          this.playbackEngine.seek(this.practiceEngine.getCurrentPlaybackPosition());
+        }
       });
       
       // Update keyboard to use flats or sharps based on key signature
@@ -743,6 +1402,7 @@ class App {
 
   private async loadSavedScore(): Promise<void> {
     const savedScore = this.getSavedScore();
+    const savedScoreName = this.getSavedScoreName() || 'Saved Score';
     
     if (savedScore) {
       try {
@@ -828,9 +1488,20 @@ class App {
         
         if (scoreContainer && config.keyboardSize > 0) scoreContainer.classList.add('with-keyboard');
         
-        this.practiceEngine.loadScore(noteGroups, repeatHandler);
-        this.playbackEngine.loadScore(noteGroups, repeatHandler);
+        this.practiceEngine.loadScore(noteGroups, repeatHandler, this.scoreRenderer.getTempoMap());
+        this.playbackEngine.loadScore(noteGroups, repeatHandler, this.scoreRenderer.getTempoMap());
         this.playbackEngine.setTempo(tempo);
+        this.playbackEngine.setPedalMarkings(this.scoreRenderer.getPedalMarkings());
+        this.playbackEngine.setFermatas(this.scoreRenderer.getFermatas());
+        this.playbackEngine.setSwingMarkings(this.scoreRenderer.getSwingMarkings());
+        this.practiceEngine.setPedalMarkings(this.scoreRenderer.getPedalMarkings());
+        this.metronome.setTempoMap(this.scoreRenderer.getTempoMap());
+        this.practiceEngine.setDynamicMarkings(this.scoreRenderer.getDynamicMarkings());
+        
+        // Bring back mistakes from earlier sessions with this score
+        this.currentScoreKey = this.getScoreKey(savedScoreName);
+        this.loadMeasureStats();
+        this.updateBestCleanTempo();
         
         // Update keyboard to use flats or sharps based on key signature
         this.keyboard.setUseFlats(this.scoreRenderer.getUseFlats());
@@ -840,7 +1511,7 @@ class App {
         const headerTitle = document.getElementById('header-score-title');
         if (headerTitle) {
           const title = this.scoreRenderer.getTitle();
-          headerTitle.textContent = title || 'Saved Score';
+          headerTitle.textContent = title || savedScoreName.replace(/\.(xml|musicxml|mxl)$/i, '');
         }
         
         this.uiController.hideMessage();
@@ -848,6 +1519,9 @@ class App {
         // Set up note click handler
         this.scoreRenderer.onNoteClick((index) => {
           this.practiceEngine.jumpToNoteGroup(index);
+          if (this.playbackEngine.getIsPlaying()) {
+            this.playbackEngine.seek(this.practiceEngine.getCurrentPlaybackPosition());
+          }
         });
         
         // Auto-start practice
@@ -864,6 +1538,11 @@ class App {
   private clearScore(): void {
     // Clear saved score
     this.clearSavedScore();
+    this.saveMeasureStats();
+    this.finishSession(false);
+    this.performanceRecorder.clear();
+    this.midiHandler.setKeyLights([]);
+    this.currentScoreKey = null;
     
     // Clear UI
     this.scoreRenderer.dispose();
@@ -894,6 +1573,15 @@ class App {
     console.log('Score cleared');
   }
 
+  private hideStatsDashboard(): void {
+    this.statsDashboard.hide();
+    document.getElementById('stats-btn')?.classList.remove('active');
+    
+    // Back to the score library
+    const loadingMessage = document.getElementById('loading-message');
+    if (loadingMessage) loadingMessage.style.display = 'block';
+  }
+
   private showToast(message: string, duration: number = 3000): void {
     const toast = document.getElementById('toast');
     if (!toast) return;
@@ -1026,6 +1714,31 @@ class App {
   }
 
   private handleVoiceCommand(command: string): void {
+    // Match "loop bars X to Y" or "loop bar X"
+    const loopMatch = command.match(/loop (?:measures?|bars?)\s+(\d+)(?:\s+(?:to|through|-)\s+(\d+))?/);
+    if (loopMatch) {
+      const startMeasure = parseInt(loopMatch[1]);
+      const endMeasure = loopMatch[2] ? parseInt(loopMatch[2]) : startMeasure;
+      this.setLoop({
+        startMeasure: Math.min(startMeasure, endMeasure) - 1,
+        endMeasure: Math.max(startMeasure, endMeasure) - 1
+      });
+      return;
+    }
+
+    // Match "metronome" / "metronome on" / "metronome off"
+    const metronomeMatch = command.match(/^metronome(?: (on|off))?$/);
+    if (metronomeMatch) {
+      this.setMetronomeEnabled(metronomeMatch[1] ? metronomeMatch[1] === 'on' : !this.metronome.isEnabled());
+      return;
+    }
+
+    // Match "stop looping" / "clear loop"
+    if (command.includes('stop looping') || command.includes('clear loop') || command === 'loop off') {
+      this.setLoop(null);
+      return;
+    }
+
     // Match "measure X" or "bar X"
     const measureMatch = command.match(/(?:measure|bar)\s+(\d+)/);
     if (measureMatch) {
@@ -1084,6 +1797,28 @@ class App {
       return;
     }
 
+    // Match "play along" / "wait mode"
+    if (command.includes('play along')) {
+      this.setTimingMode('timed');
+      return;
+    }
+
+    if (command.includes('wait mode') || command.includes('wait for me')) {
+      this.setTimingMode('wait');
+      return;
+    }
+
+    // Match "skip repeats" / "play repeats"
+    if (command.includes('skip repeats') || command.includes('no repeats')) {
+      this.setSkipRepeats(true);
+      return;
+    }
+
+    if (command.includes('play repeats') || command.includes('with repeats')) {
+      this.setSkipRepeats(false);
+      return;
+    }
+
     if (command === 'stop') {
       if (this.playbackEngine.getIsPlaying()) {
         this.playbackEngine.stop();
@@ -1114,7 +1849,9 @@ class App {
   }
 
   private goToStart(): void {
+    this.finishSession(false);
     this.practiceEngine.reset();
+    this.scoreRenderer.clearNoteErrors();
     console.log('Jumped to start');
   }
 
@@ -1157,7 +1894,9 @@ class App {
   }
 
   private setPracticeMode(mode: PracticeMode): void {
+    this.finishSession(false);
     this.practiceEngine.setPracticeMode(mode);
+    this.scoreRenderer.clearNoteErrors();
     this.saveConfig({ practiceMode: mode });
     
     // Update UI select
@@ -1169,6 +1908,343 @@ class App {
     console.log(`Practice mode set to: ${mode}`);
   }
 
+  private setLoop(range: LoopRange | null): void {
+    const noteGroups = this.practiceEngine.getState().score;
+    if (noteGroups.length === 0) return;
+
+    if (range) {
+      const lastMeasure = noteGroups[noteGroups.length - 1].measureIndex;
+      if (range.startMeasure < 0 || range.startMeasure > lastMeasure) {
+        this.showToast(`Bar ${range.startMeasure + 1} not found`);
+        return;
+      }
+      range = { startMeasure: range.startMeasure, endMeasure: Math.min(range.endMeasure, lastMeasure) };
+    }
+
+    this.practiceEngine.setLoop(range);
+    this.playbackEngine?.setLoop(range);
+    this.scoreRenderer.setLoopRegion(range);
+    this.updateBestCleanTempo();
+
+    if (!range) {
+      this.showToast('Loop cleared');
+    } else if (range.startMeasure === range.endMeasure) {
+      this.showToast(`Looping bar ${range.startMeasure + 1}`);
+    } else {
+      this.showToast(`Looping bars ${range.startMeasure + 1}–${range.endMeasure + 1}`);
+    }
+    console.log('Loop set to:', range);
+  }
+
+  /**
+   * Apply a tempo multiplier to practice and playback, and show it on the tempo slider
+   */
+  private setTempoMultiplier(multiplier: number): void {
+    const headerTempoSlider = document.getElementById('header-tempo-slider') as HTMLInputElement;
+    const headerTempoValue = document.getElementById('header-tempo-value');
+    if (headerTempoSlider) headerTempoSlider.value = multiplier.toString();
+    if (headerTempoValue) headerTempoValue.textContent = this.formatTempoMultiplier(multiplier);
+    this.playbackEngine.setTempoMultiplier(multiplier);
+    this.practiceEngine.setTempoMultiplier(multiplier);
+    this.saveConfig({ tempoMultiplier: multiplier });
+  }
+
+  private formatTempoMultiplier(multiplier: number): string {
+    return multiplier === 1.0 ? '1x' : `${multiplier.toFixed(1)}x`;
+  }
+
+  /**
+   * A pass of the loop or piece: keep the best tempo it was played cleanly at, and let the speed
+   * trainer speed up after a clean pass or slow down after one with mistakes
+   */
+  private handlePass(mistakes: number): void {
+    const multiplier = this.getConfig().tempoMultiplier;
+    const clean = mistakes === 0;
+    if (clean) {
+      this.saveBestCleanTempo(multiplier);
+    }
+    if (!this.speedTrainer.isEnabled()) return;
+
+    const next = this.speedTrainer.getNextMultiplier(multiplier, clean);
+    this.setTempoMultiplier(next);
+    if (!clean) {
+      this.showToast(`${mistakes} mistake${mistakes === 1 ? '' : 's'} - slowing to ${this.formatTempoMultiplier(next)}`);
+    } else if (this.speedTrainer.isAtTarget(multiplier)) {
+      this.showToast(`Clean at the target tempo (${this.formatTempoMultiplier(multiplier)})`);
+    } else {
+      this.showToast(`Clean pass - speeding up to ${this.formatTempoMultiplier(next)}`);
+    }
+  }
+
+  /**
+   * Best clean tempos of the loaded score, keyed by loop ("3-6", measure indices) or "piece"
+   */
+  private loadSpeedRecords(): Record<string, number> {
+    const stored = localStorage.getItem(this.SPEED_RECORDS_KEY);
+    if (stored && this.currentScoreKey) {
+      try {
+        const allScores = JSON.parse(stored) as Record<string, Record<string, number>>;
+        return allScores[this.currentScoreKey] || {};
+      } catch (e) {
+        console.error('Failed to parse speed records:', e);
+      }
+    }
+    return {};
+  }
+
+  private getSpeedRecordKey(): string {
+    const loop = this.practiceEngine.getLoop();
+    return loop ? `${loop.startMeasure}-${loop.endMeasure}` : 'piece';
+  }
+
+  private saveBestCleanTempo(multiplier: number): void {
+    if (!this.currentScoreKey) return;
+    
+    const records = this.loadSpeedRecords();
+    const key = this.getSpeedRecordKey();
+    if ((records[key] ?? 0) >= multiplier) return;
+    
+    let allScores: Record<string, Record<string, number>> = {};
+    const stored = localStorage.getItem(this.SPEED_RECORDS_KEY);
+    if (stored) {
+      try {
+        allScores = JSON.parse(stored);
+      } catch (e) {
+        console.error('Failed to parse speed records:', e);
+      }
+    }
+    
+    allScores[this.currentScoreKey] = { ...records, [key]: multiplier };
+    localStorage.setItem(this.SPEED_RECORDS_KEY, JSON.stringify(allScores));
+    this.updateBestCleanTempo();
+  }
+
+  /**
+   * Show the best clean tempo for the current loop (or the whole piece) in the settings panel
+   */
+  private updateBestCleanTempo(): void {
+    const bestCleanTempo = document.getElementById('best-clean-tempo');
+    if (!bestCleanTempo) return;
+    
+    const best = this.loadSpeedRecords()[this.getSpeedRecordKey()];
+    const loop = this.practiceEngine.getLoop();
+    const passage = !loop ? 'whole piece'
+      : loop.startMeasure === loop.endMeasure ? `bar ${loop.startMeasure + 1}`
+      : `bars ${loop.startMeasure + 1}–${loop.endMeasure + 1}`;
+    bestCleanTempo.textContent = best ? `${this.formatTempoMultiplier(best)} (${passage})` : `– (${passage})`;
+  }
+
+  private loadMeasureStats(): void {
+    const stats = new Map<number, MeasureStats>();
+    const stored = localStorage.getItem(this.MEASURE_STATS_KEY);
+    if (stored && this.currentScoreKey) {
+      try {
+        const allScores = JSON.parse(stored) as Record<string, Record<string, MeasureStats>>;
+        Object.entries(allScores[this.currentScoreKey] || {}).forEach(([measureIndex, measureStats]) => {
+          stats.set(parseInt(measureIndex), measureStats);
+        });
+      } catch (e) {
+        console.error('Failed to parse measure stats:', e);
+      }
+    }
+    this.practiceEngine.setMeasureStats(stats);
+    this.updateHeatmap();
+  }
+
+  private saveMeasureStats(): void {
+    if (!this.currentScoreKey) return;
+    
+    let allScores: Record<string, Record<string, MeasureStats>> = {};
+    const stored = localStorage.getItem(this.MEASURE_STATS_KEY);
+    if (stored) {
+      try {
+        allScores = JSON.parse(stored);
+      } catch (e) {
+        console.error('Failed to parse measure stats:', e);
+      }
+    }
+    
+    allScores[this.currentScoreKey] = Object.fromEntries(this.practiceEngine.getMeasureStats());
+    localStorage.setItem(this.MEASURE_STATS_KEY, JSON.stringify(allScores));
+  }
+
+  /**
+   * Store the current run in the session history and start a new one
+   */
+  private finishSession(completed: boolean): void {
+    this.performanceRecorder.startTake();
+    const run = this.practiceEngine.getRunSummary();
+    this.practiceEngine.beginRun();
+    if (!run || !this.currentScoreKey) return;
+
+    const accuracy = (played: number, wrong: number) => played + wrong > 0 ? played / (played + wrong) : 1;
+    const measures = [...run.measures.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([measureIndex, stats]) => ({
+        measureIndex,
+        ...stats,
+        accuracy: accuracy(stats.notesPlayed, stats.wrongNotes),
+      }));
+    const notesPlayed = measures.reduce((sum, measure) => sum + measure.notesPlayed, 0);
+    const wrongNotes = measures.reduce((sum, measure) => sum + measure.wrongNotes, 0);
+    const config = this.getConfig();
+
+    const session: PracticeSession = {
+      scoreId: this.currentScoreKey,
+      scoreTitle: this.scoreRenderer.getTitle() || this.currentScoreKey,
+      startedAt: run.startedAt,
+      durationMs: run.durationMs,
+      practiceMode: config.practiceMode,
+      timingMode: this.practiceEngine.getTimingMode(),
+      tempoMultiplier: config.tempoMultiplier,
+      completed,
+      notesPlayed,
+      wrongNotes,
+      accuracy: accuracy(notesPlayed, wrongNotes),
+      measures,
+      dynamics: config.gradeDynamics ? run.dynamics : undefined,
+    };
+
+    this.sessionStore.addSession(session).catch(error => {
+      console.error('Failed to save practice session:', error);
+    });
+  }
+
+  /**
+   * One line of dynamics feedback, e.g. "Too soft in bars 3–6 (p, right hand)"
+   */
+  private describeDynamicsFeedback(feedback: DynamicsFeedback): string {
+    const bars = feedback.startMeasure === feedback.endMeasure
+      ? `bar ${feedback.startMeasure + 1}`
+      : `bars ${feedback.startMeasure + 1}–${feedback.endMeasure + 1}`;
+    const hand = `${feedback.hand} hand`;
+    switch (feedback.type) {
+      case 'too-loud': return `Too loud in ${bars} (${feedback.level}, ${hand})`;
+      case 'too-soft': return `Too soft in ${bars} (${feedback.level}, ${hand})`;
+      case 'no-crescendo': return `No crescendo in ${bars} (${hand})`;
+      case 'no-diminuendo': return `No diminuendo in ${bars} (${hand})`;
+    }
+  }
+
+  /**
+   * The hand a played key belongs to: the score's hand if it is an expected note, else by middle C
+   */
+  private getHandForNote(note: number): 'left' | 'right' {
+    const state = this.practiceEngine.getState();
+    const scoreNote = state.score[state.currentNoteGroupIndex]?.notes.find(n => n.pitch === note);
+    return scoreNote ? scoreNote.hand : note >= 60 ? 'right' : 'left';
+  }
+
+  /**
+   * Download the current (or last finished) take as a .mid file at the practised tempo
+   */
+  private exportPerformance(): void {
+    if (!this.performanceRecorder.hasTake()) {
+      this.showToast('Nothing recorded yet - play some notes first');
+      return;
+    }
+    
+    const title = this.scoreRenderer.getTitle() || this.currentScoreKey || 'Performance';
+    const bpm = this.scoreRenderer.getTempo() * this.getConfig().tempoMultiplier;
+    const midiFile = this.performanceRecorder.toMidiFile(bpm, title);
+    
+    const now = new Date();
+    const stamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}-${String(now.getMinutes()).padStart(2, '0')}`;
+    const url = URL.createObjectURL(new Blob([midiFile], { type: 'audio/midi' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${title.replace(/[\\/:*?"<>|]/g, '')} ${stamp}.mid`;
+    link.click();
+    URL.revokeObjectURL(url);
+    
+    this.showToast('Take exported as MIDI');
+  }
+
+  private updateHeatmap(): void {
+    const show = this.getConfig().showHeatmap;
+    this.scoreRenderer.setHeatmap(show ? this.practiceEngine.getMeasureErrorRates() : null);
+  }
+
+  private setTimingMode(mode: TimingMode): void {
+    this.finishSession(false);
+    this.practiceEngine.setTimingMode(mode);
+    this.saveConfig({ timingMode: mode });
+    this.updateTimingFeedback(null);
+    
+    // Update UI select
+    const select = document.getElementById('header-timing-mode') as HTMLSelectElement;
+    if (select) {
+      select.value = mode;
+    }
+    
+    this.showToast(mode === 'timed' ? 'Play along: the cursor keeps time' : 'Wait mode: the cursor waits for you');
+    console.log(`Timing mode set to: ${mode}`);
+  }
+
+  private setMetronomeEnabled(enabled: boolean): void {
+    this.metronome.setEnabled(enabled);
+    this.saveConfig({ metronome: enabled });
+    document.getElementById('header-metronome-btn')?.classList.toggle('active', enabled);
+    this.showToast(enabled ? 'Metronome on' : 'Metronome off');
+  }
+
+  private updateTimingFeedback(grade: TimingGrade | null): void {
+    const feedback = document.getElementById('header-timing-feedback');
+    if (!feedback) return;
+    
+    feedback.style.display = this.practiceEngine.getTimingMode() === 'timed' ? 'inline-block' : 'none';
+    feedback.classList.remove('early', 'on-time', 'late', 'missed');
+    
+    if (!grade) {
+      feedback.textContent = '–';
+      return;
+    }
+    
+    feedback.classList.add(grade.result);
+    if (grade.result === 'on-time') {
+      feedback.textContent = 'On time';
+    } else if (grade.result === 'missed') {
+      feedback.textContent = 'Missed';
+    } else {
+      feedback.textContent = `${grade.result === 'early' ? 'Early' : 'Late'} ${Math.abs(grade.offsetMs)}ms`;
+    }
+  }
+
+  private setSkipRepeats(skip: boolean): void {
+    // Playback walks the playback sequence, so stop it before swapping sequences
+    if (this.playbackEngine.getIsPlaying()) {
+      this.playbackEngine.stop();
+      const headerPlayBtn = document.getElementById('header-play-btn');
+      if (headerPlayBtn) {
+        headerPlayBtn.innerHTML = '<svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M5 3l14 9-14 9V3z"/></svg>';
+        headerPlayBtn.classList.remove('active');
+      }
+      this.practiceEngine.start();
+    }
+    
+    // Stay on the same note group, re-mapped into the new sequence
+    const currentNoteGroupIndex = this.practiceEngine.getState().currentNoteGroupIndex;
+    this.scoreRenderer.getRepeatHandler().setSkipRepeats(skip);
+    this.saveConfig({ skipRepeats: skip });
+    if (this.practiceEngine.getState().score.length > 0) {
+      this.practiceEngine.jumpToNoteGroup(Math.max(0, currentNoteGroupIndex));
+    }
+    
+    // Loop positions depend on the sequence, so resolve them again
+    const loop = this.practiceEngine.getLoop();
+    this.practiceEngine.setLoop(loop);
+    this.playbackEngine.setLoop(loop);
+    
+    // Update UI select
+    const select = document.getElementById('repeats-select') as HTMLSelectElement;
+    if (select) {
+      select.value = skip ? 'skip' : 'play';
+    }
+    
+    this.showToast(skip ? 'Repeats skipped' : 'Repeats played');
+    console.log(`Skip repeats set to: ${skip}`);
+  }
+
   private setKeyboardSize(size: number): void {
     const container = document.querySelector('.keyboard-container') as HTMLElement;
     const mainContainer = document.querySelector('.main') as HTMLElement;
@@ -1209,30 +2285,8 @@ class App {
           this.keyboard = new SimpleKeyboard(keyboardInner);
           this.keyboard.setUseFlats(this.scoreRenderer.getUseFlats());
           
-          // Re-register keyboard click handler
-          this.keyboard.onNoteClick((note) => {
-            // Play the sound
-            const tempo = 120;
-            const msPerQuarterNote = 60000 / tempo;
-            const duration = 0.5 * msPerQuarterNote * 4 / 1000;
-            this.soundHandler.playNote(note, duration, 0.7);
-            
-            // Only handle as MIDI input if playback is not active
-            if (this.playbackEngine && !this.playbackEngine.getIsPlaying()) {
-              // Emulate MIDI note on
-              this.practiceEngine.handleNoteOn(note);
-              
-              const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
-              const isCorrect = expectedNotes.includes(note);
-              this.keyboard.keyDown(note, isCorrect);
-              
-              // Auto release after 200ms
-              setTimeout(() => {
-                this.practiceEngine.handleNoteOff(note);
-                this.keyboard.keyUp(note);
-              }, 200);
-            }
-          });
+          // Re-register keyboard input
+          this.connectKeyboardInput();
           
           // Restore highlighted notes
           const expectedNotes = this.practiceEngine.getCurrentExpectedNotes();
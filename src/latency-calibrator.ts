@@ -0,0 +1,214 @@
+import * as Tone from 'tone';
+import type { LatencyMeasurement } from './shared/types';
+import type { SoundHandler } from './sound-handler';
+
+type CalibrationStep = 'intro' | 'visual' | 'audio' | 'result';
+
+/**
+ * Wizard that measures input and audio output latency from taps on the keyboard. Tapping along
+ * to a silent flash gives the input latency (the screen is taken as instant); tapping along to
+ * clicks gives input plus output, and the difference is the output latency.
+ */
+export class LatencyCalibrator {
+  private readonly BEAT_MS = 600; // 100 BPM
+  private readonly BEATS = 16;
+  private readonly LEAD_IN_BEATS = 4; // Taps while finding the beat aren't counted
+  private readonly START_DELAY_MS = 2000;
+  private readonly MIN_TAPS = 6;
+  private soundHandler: SoundHandler;
+  private container: HTMLElement | null;
+  private step: CalibrationStep = 'intro';
+  private beatTimes: number[] = []; // performance.now() of each beat in the running test
+  private taps: number[] = [];
+  private visualOffsetMs: number = 0;
+  private result: LatencyMeasurement | null = null;
+  private error: string | null = null;
+  private timeoutIds: number[] = [];
+  private onSaveCallback: ((measurement: LatencyMeasurement) => void) | null = null;
+
+  constructor(soundHandler: SoundHandler, containerId: string = 'latency-calibration') {
+    this.soundHandler = soundHandler;
+    this.container = document.getElementById(containerId);
+
+    // One delegated handler survives every re-render
+    this.container?.addEventListener('click', async (e) => {
+      const action = (e.target as HTMLElement).closest('[data-action]')?.getAttribute('data-action');
+      if (action === 'start') {
+        // Clicking is the user gesture that lets audio start
+        await Tone.start();
+        this.result = null;
+        this.error = null;
+        this.runTest('visual');
+      } else if (action === 'save' && this.result) {
+        if (this.onSaveCallback) this.onSaveCallback(this.result);
+        this.hide();
+      } else if (action === 'close') {
+        this.hide();
+      }
+    });
+  }
+
+  show(): void {
+    if (!this.container) return;
+
+    this.step = 'intro';
+    this.result = null;
+    this.error = null;
+    this.render();
+    this.container.style.display = 'flex';
+  }
+
+  hide(): void {
+    this.clearTimeouts();
+    if (this.container) this.container.style.display = 'none';
+  }
+
+  isVisible(): boolean {
+    return this.container?.style.display === 'flex';
+  }
+
+  /**
+   * A key press while the wizard is open
+   */
+  tap(): void {
+    if (this.step !== 'visual' && this.step !== 'audio') return;
+
+    this.taps.push(performance.now());
+    const counter = this.container?.querySelector('.calibration-taps');
+    if (counter) counter.textContent = `Taps: ${this.taps.length}`;
+  }
+
+  onSave(callback: (measurement: LatencyMeasurement) => void): void {
+    this.onSaveCallback = callback;
+  }
+
+  private runTest(step: 'visual' | 'audio'): void {
+    this.clearTimeouts();
+    this.step = step;
+    this.taps = [];
+    this.render();
+
+    const start = performance.now() + this.START_DELAY_MS;
+    this.beatTimes = Array.from({ length: this.BEATS }, (_, i) => start + i * this.BEAT_MS);
+
+    if (step === 'visual') {
+      this.beatTimes.forEach(time => {
+        this.timeoutIds.push(window.setTimeout(() => this.flash(), time - performance.now()));
+      });
+    } else {
+      // Clicks go on the audio clock, lined up with the beat times
+      const toneStart = Tone.immediate() + (start - performance.now()) / 1000;
+      this.beatTimes.forEach((_, i) => {
+        this.soundHandler.playClickAt(toneStart + i * this.BEAT_MS / 1000, i % 4 === 0);
+      });
+    }
+
+    const end = start + this.BEATS * this.BEAT_MS;
+    this.timeoutIds.push(window.setTimeout(() => this.finishTest(step), end - performance.now()));
+  }
+
+  private finishTest(step: 'visual' | 'audio'): void {
+    const offset = this.getMedianOffset();
+    if (offset === null) {
+      this.error = `Only ${this.taps.length} taps were counted. Tap once on every beat after the first few.`;
+      this.step = 'result';
+      this.render();
+      return;
+    }
+
+    if (step === 'visual') {
+      this.visualOffsetMs = offset;
+      this.runTest('audio');
+      return;
+    }
+
+    this.result = {
+      inputLatencyMs: Math.max(0, Math.round(this.visualOffsetMs)),
+      outputLatencyMs: Math.max(0, Math.round(offset - this.visualOffsetMs)),
+    };
+    console.log('Latency calibration:', this.result);
+    this.step = 'result';
+    this.render();
+  }
+
+  /**
+   * Median of each counted tap's distance from its nearest beat, or null with too few taps
+   */
+  private getMedianOffset(): number | null {
+    const offsets: number[] = [];
+    for (const tap of this.taps) {
+      const beat = Math.round((tap - this.beatTimes[0]) / this.BEAT_MS);
+      if (beat < this.LEAD_IN_BEATS || beat >= this.BEATS) continue;
+      offsets.push(tap - this.beatTimes[beat]);
+    }
+    if (offsets.length < this.MIN_TAPS) return null;
+
+    offsets.sort((a, b) => a - b);
+    const middle = Math.floor(offsets.length / 2);
+    return offsets.length % 2 === 1 ? offsets[middle] : (offsets[middle - 1] + offsets[middle]) / 2;
+  }
+
+  private flash(): void {
+    const light = this.container?.querySelector('.calibration-flash');
+    if (!light) return;
+
+    light.classList.add('on');
+    this.timeoutIds.push(window.setTimeout(() => light.classList.remove('on'), 120));
+  }
+
+  private clearTimeouts(): void {
+    this.timeoutIds.forEach(id => clearTimeout(id));
+    this.timeoutIds = [];
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    let body = '';
+    if (this.step === 'intro') {
+      body = `
+        <p>Measures how late your keyboard's notes reach the app and how late its sound reaches you, so play along and playback can make up for it.</p>
+        <p>First tap any key on every flash, then on every click. Use headphones or speakers you practise with.</p>
+        <div class="calibration-actions">
+          <button class="btn" data-action="close">Cancel</button>
+          <button class="btn btn-primary" data-action="start">Start</button>
+        </div>
+      `;
+    } else if (this.step === 'visual' || this.step === 'audio') {
+      body = `
+        <p>${this.step === 'visual' ? 'Step 1 of 2: tap along with the flashing light' : 'Step 2 of 2: tap along with the clicks'}</p>
+        ${this.step === 'visual' ? '<div class="calibration-flash"></div>' : ''}
+        <div class="calibration-taps">Taps: 0</div>
+        <div class="calibration-actions">
+          <button class="btn" data-action="close">Cancel</button>
+        </div>
+      `;
+    } else if (this.error) {
+      body = `
+        <p>${this.error}</p>
+        <div class="calibration-actions">
+          <button class="btn" data-action="close">Cancel</button>
+          <button class="btn btn-primary" data-action="start">Try Again</button>
+        </div>
+      `;
+    } else if (this.result) {
+      body = `
+        <div class="calibration-results">
+          <div><span>Input</span><strong>${this.result.inputLatencyMs} ms</strong></div>
+          <div><span>Output</span><strong>${this.result.outputLatencyMs} ms</strong></div>
+        </div>
+        <div class="calibration-actions">
+          <button class="btn" data-action="start">Try Again</button>
+          <button class="btn btn-primary" data-action="save">Save</button>
+        </div>
+      `;
+    }
+
+    this.container.innerHTML = `
+      <div class="calibration-dialog">
+        <h2>Latency Calibration</h2>
+        ${body}
+      </div>
+    `;
+  }
+}
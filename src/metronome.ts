@@ -0,0 +1,112 @@
+import * as Tone from 'tone';
+import type { CountInBars, MetronomeBeat, TimeSignature } from './shared/types';
+import type { SoundHandler } from './sound-handler';
+import { TempoMap } from './tempo-map';
+
+/**
+ * Beats of the score's measures for playback and play along, and the count-in before them.
+ * Clicks play through SoundHandler, with the first beat of each bar accented.
+ */
+export class Metronome {
+  private readonly EPSILON = 1e-6;
+  private soundHandler: SoundHandler;
+  private enabled: boolean = false;
+  private countInBars: CountInBars = 0;
+  private tempoMap: TempoMap = new TempoMap();
+
+  constructor(soundHandler: SoundHandler) {
+    this.soundHandler = soundHandler;
+  }
+
+  /**
+   * The loaded score's tempo map, for its measures and time signatures
+   */
+  setTempoMap(tempoMap: TempoMap): void {
+    this.tempoMap = tempoMap;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setCountInBars(bars: CountInBars): void {
+    this.countInBars = bars;
+  }
+
+  getCountInBars(): CountInBars {
+    return this.countInBars;
+  }
+
+  /**
+   * Beats from `from` (inclusive) to `to` (exclusive), in whole notes from the start of the piece
+   */
+  getBeats(from: number, to: number): MetronomeBeat[] {
+    const beats: MetronomeBeat[] = [];
+
+    for (const measure of this.tempoMap.getMeasures()) {
+      const end = measure.absoluteTime + measure.duration;
+      if (end <= from + this.EPSILON) continue;
+      if (measure.absoluteTime >= to - this.EPSILON) break;
+
+      const { beatLength, beatsPerBar } = this.getBeatLayout(measure.timeSignature);
+      // A short first measure is a pickup: the end of a bar, so count back from the next barline
+      const barLength = beatLength * beatsPerBar;
+      const isPickup = measure.measureIndex === 0 && measure.duration < barLength - this.EPSILON;
+      const barStart = isPickup ? end - barLength : measure.absoluteTime;
+
+      for (let beat = 0; barStart + beat * beatLength < end - this.EPSILON; beat++) {
+        const time = barStart + beat * beatLength;
+        if (time < measure.absoluteTime - this.EPSILON) continue;
+        if (time < from - this.EPSILON || time >= to - this.EPSILON) continue;
+        beats.push({ time, accent: beat % beatsPerBar === 0 });
+      }
+    }
+
+    return beats;
+  }
+
+  /**
+   * Count-in for starting at a point in the score: whole bars in the meter found there, with
+   * beat times from the start of the count-in. Empty when the count-in is off.
+   */
+  getCountIn(absoluteTime: number): { beats: MetronomeBeat[]; duration: number } {
+    if (this.countInBars === 0) return { beats: [], duration: 0 };
+
+    const { beatLength, beatsPerBar } = this.getBeatLayout(this.tempoMap.getTimeSignatureAt(absoluteTime));
+    const beats = Array.from({ length: this.countInBars * beatsPerBar }, (_, beat) => ({
+      time: beat * beatLength,
+      accent: beat % beatsPerBar === 0,
+    }));
+    return { beats, duration: beats.length * beatLength };
+  }
+
+  /**
+   * Click at an AudioContext time. Count-in clicks play even when the metronome is off.
+   */
+  playBeat(time: number | undefined, accent: boolean, countIn: boolean = false): void {
+    if (!this.enabled && !countIn) return;
+    this.soundHandler.playClickAt(time, accent);
+  }
+
+  /**
+   * Click after a delay in ms, scheduled on the audio clock so timer jitter isn't heard
+   */
+  playBeatIn(delayMs: number, accent: boolean, countIn: boolean = false): void {
+    this.playBeat(Tone.immediate() + Math.max(0, delayMs) / 1000, accent, countIn);
+  }
+
+  /**
+   * Compound meters (6/8, 9/8, 12/8...) are counted in dotted beats
+   */
+  private getBeatLayout(timeSignature: TimeSignature): { beatLength: number; beatsPerBar: number } {
+    const { numerator, denominator } = timeSignature;
+    if (denominator >= 8 && numerator > 3 && numerator % 3 === 0) {
+      return { beatLength: 3 / denominator, beatsPerBar: numerator / 3 };
+    }
+    return { beatLength: 1 / denominator, beatsPerBar: numerator };
+  }
+}
@@ -0,0 +1,464 @@
+import type { MidiHandSplit } from './shared/types';
+
+/**
+ * A note read from the file, in ticks
+ */
+interface MidiFileNote {
+  pitch: number;
+  velocity: number; // 1-127
+  startTick: number;
+  endTick: number;
+  track: number;
+  channel: number;
+}
+
+interface MidiFileData {
+  ticksPerQuarter: number;
+  notes: MidiFileNote[];
+  tempos: { tick: number; bpm: number }[];
+  timeSignatures: { tick: number; numerator: number; denominator: number }[];
+  keyFifths: number;
+  name: string; // Sequence name from the first track, if any
+}
+
+/**
+ * A chord or rest on one staff, in grid units
+ */
+interface StaffSegment {
+  start: number;
+  end: number;
+  notes: { pitch: number; velocity: number }[];
+}
+
+interface GeneratedMeasure {
+  start: number;
+  units: number;
+  numerator: number;
+  denominator: number;
+  tempo: number;
+}
+
+// Note values that fit the 16th-note grid: [units, type, dotted]
+const NOTE_VALUES: [number, string, boolean][] = [
+  [16, 'whole', false],
+  [12, 'half', true],
+  [8, 'half', false],
+  [6, 'quarter', true],
+  [4, 'quarter', false],
+  [3, 'eighth', true],
+  [2, 'eighth', false],
+  [1, '16th', false],
+];
+
+/**
+ * Converts Standard MIDI Files (.mid) to simple two-staff MusicXML so they load like any other score
+ */
+export class MidiFileImporter {
+  private readonly UNITS_PER_QUARTER = 4; // Quantize to 16th notes
+  private readonly PERCUSSION_CHANNEL = 9;
+  private handSplit: MidiHandSplit = 'auto';
+  private splitPoint: number = 60; // Notes from middle C up go to the right hand
+
+  setHandSplit(handSplit: MidiHandSplit, splitPoint: number = 60): void {
+    this.handSplit = handSplit;
+    this.splitPoint = splitPoint;
+  }
+
+  /**
+   * Convert a .mid file to MusicXML. The title is used when the file has no sequence name.
+   */
+  convert(buffer: ArrayBuffer, fallbackTitle: string): string {
+    const midi = this.parse(buffer);
+    if (midi.notes.length === 0) {
+      throw new Error('No notes found in MIDI file');
+    }
+
+    const hands = this.assignHands(midi.notes);
+    console.log(`MIDI import: ${midi.notes.length} notes, ${hands.filter(hand => hand === 'right').length} right hand, ${midi.tempos.length} tempo events`);
+    return this.toMusicXML(midi, hands, midi.name || fallbackTitle);
+  }
+
+  private parse(buffer: ArrayBuffer): MidiFileData {
+    const data = new DataView(buffer);
+    let offset = 0;
+
+    const readString = (length: number) => {
+      let text = '';
+      for (let i = 0; i < length; i++) text += String.fromCharCode(data.getUint8(offset + i));
+      offset += length;
+      return text;
+    };
+    const readVariableLength = () => {
+      let value = 0;
+      let byte: number;
+      do {
+        byte = data.getUint8(offset++);
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80);
+      return value;
+    };
+
+    if (readString(4) !== 'MThd') {
+      throw new Error('Not a Standard MIDI File');
+    }
+    const headerLength = data.getUint32(offset);
+    const trackCount = data.getUint16(offset + 6);
+    const division = data.getUint16(offset + 8);
+    offset += 4 + headerLength;
+
+    if (division & 0x8000) {
+      throw new Error('SMPTE time division is not supported');
+    }
+
+    const midi: MidiFileData = {
+      ticksPerQuarter: division,
+      notes: [],
+      tempos: [],
+      timeSignatures: [],
+      keyFifths: 0,
+      name: '',
+    };
+
+    for (let track = 0; track < trackCount && offset < data.byteLength; track++) {
+      const chunkType = readString(4);
+      const chunkLength = data.getUint32(offset);
+      offset += 4;
+      const chunkEnd = offset + chunkLength;
+
+      // Skip unknown chunks
+      if (chunkType !== 'MTrk') {
+        offset = chunkEnd;
+        track--;
+        continue;
+      }
+
+      const activeNotes = new Map<string, { tick: number; velocity: number }[]>(); // channel-pitch -> note ons
+      let tick = 0;
+      let runningStatus = 0;
+
+      const noteOff = (channel: number, pitch: number) => {
+        const started = activeNotes.get(`${channel}-${pitch}`)?.shift();
+        if (started) {
+          midi.notes.push({ pitch, velocity: started.velocity, startTick: started.tick, endTick: tick, track, channel });
+        }
+      };
+
+      while (offset < chunkEnd) {
+        tick += readVariableLength();
+        let status = data.getUint8(offset);
+        if (status & 0x80) {
+          offset++;
+        } else {
+          // Running status: reuse the previous channel message status
+          status = runningStatus;
+        }
+
+        if (status === 0xff) {
+          const type = data.getUint8(offset++);
+          const length = readVariableLength();
+          if (type === 0x51 && length === 3) {
+            const microsecondsPerQuarter = (data.getUint8(offset) << 16) | (data.getUint8(offset + 1) << 8) | data.getUint8(offset + 2);
+            midi.tempos.push({ tick, bpm: 60000000 / microsecondsPerQuarter });
+          } else if (type === 0x58 && length >= 2) {
+            midi.timeSignatures.push({ tick, numerator: data.getUint8(offset), denominator: Math.pow(2, data.getUint8(offset + 1)) });
+          } else if (type === 0x59 && length >= 1 && tick === 0) {
+            midi.keyFifths = data.getInt8(offset);
+          } else if (type === 0x03 && track === 0 && !midi.name) {
+            midi.name = new TextDecoder().decode(new Uint8Array(buffer, offset, length)).trim();
+          }
+          offset += length;
+        } else if (status === 0xf0 || status === 0xf7) {
+          // SysEx
+          offset += readVariableLength();
+        } else {
+          runningStatus = status;
+          const type = status & 0xf0;
+          const channel = status & 0x0f;
+
+          if (type === 0xc0 || type === 0xd0) {
+            offset += 1;
+            continue;
+          }
+
+          const data1 = data.getUint8(offset);
+          const data2 = data.getUint8(offset + 1);
+          offset += 2;
+
+          if (channel === this.PERCUSSION_CHANNEL) continue;
+
+          if (type === 0x90 && data2 > 0) {
+            const key = `${channel}-${data1}`;
+            if (!activeNotes.has(key)) activeNotes.set(key, []);
+            activeNotes.get(key)!.push({ tick, velocity: data2 });
+          } else if (type === 0x80 || type === 0x90) {
+            noteOff(channel, data1);
+          }
+        }
+      }
+
+      // Close anything still sounding at the end of the track
+      activeNotes.forEach((started, key) => {
+        const [channel, pitch] = key.split('-').map(Number);
+        while (started.length > 0) noteOff(channel, pitch);
+      });
+
+      offset = chunkEnd;
+    }
+
+    midi.notes.sort((a, b) => a.startTick - b.startTick || a.pitch - b.pitch);
+    midi.tempos.sort((a, b) => a.tick - b.tick);
+    midi.timeSignatures.sort((a, b) => a.tick - b.tick);
+    return midi;
+  }
+
+  /**
+   * Right or left hand for each note. Two tracks (or channels) become one hand each, higher
+   * part on the right; otherwise parts are placed by average pitch, or notes by the split point.
+   */
+  private assignHands(notes: MidiFileNote[]): ('right' | 'left')[] {
+    const partsBy = (key: 'track' | 'channel') => new Set(notes.map(note => note[key])).size;
+
+    let split = this.handSplit;
+    if (split === 'auto') {
+      split = partsBy('track') >= 2 ? 'tracks' : partsBy('channel') >= 2 ? 'channels' : 'split-point';
+    }
+
+    const key = split === 'tracks' ? 'track' : 'channel';
+    if (split === 'split-point' || partsBy(key) < 2) {
+      return notes.map(note => note.pitch >= this.splitPoint ? 'right' : 'left');
+    }
+
+    const pitches = new Map<number, number[]>();
+    notes.forEach(note => {
+      if (!pitches.has(note[key])) pitches.set(note[key], []);
+      pitches.get(note[key])!.push(note.pitch);
+    });
+    const averages = [...pitches.entries()]
+      .map(([part, list]) => ({ part, average: list.reduce((sum, pitch) => sum + pitch, 0) / list.length }))
+      .sort((a, b) => b.average - a.average);
+
+    const rightParts = new Set(averages.length === 2
+      ? [averages[0].part]
+      : averages.filter(part => part.average >= this.splitPoint).map(part => part.part));
+
+    return notes.map(note => rightParts.has(note[key]) ? 'right' : 'left');
+  }
+
+  private toMusicXML(midi: MidiFileData, hands: ('right' | 'left')[], title: string): string {
+    const unitTicks = midi.ticksPerQuarter / this.UNITS_PER_QUARTER;
+    const quantize = (tick: number) => Math.round(tick / unitTicks);
+
+    const staffNotes: MidiFileNote[][] = [[], []];
+    midi.notes.forEach((note, i) => staffNotes[hands[i] === 'right' ? 0 : 1].push(note));
+    const staves = staffNotes.map(notes => this.buildSegments(notes, quantize));
+
+    const lastUnit = Math.max(...staves.map(segments => segments.length > 0 ? segments[segments.length - 1].end : 0));
+    const measures = this.buildMeasures(midi, quantize, lastUnit);
+    const useFlats = midi.keyFifths < 0;
+
+    const segmentIndex = [0, 0];
+    const measureXml = measures.map((measure, measureIndex) => {
+      const previous = measures[measureIndex - 1];
+      let xml = `    <measure number="${measureIndex + 1}">\n`;
+
+      if (!previous) {
+        xml += `      <attributes>
+        <divisions>${this.UNITS_PER_QUARTER}</divisions>
+        <key><fifths>${midi.keyFifths}</fifths></key>
+        <time><beats>${measure.numerator}</beats><beat-type>${measure.denominator}</beat-type></time>
+        <staves>2</staves>
+        <clef number="1"><sign>G</sign><line>2</line></clef>
+        <clef number="2"><sign>F</sign><line>4</line></clef>
+      </attributes>\n`;
+      } else if (previous.numerator !== measure.numerator || previous.denominator !== measure.denominator) {
+        xml += `      <attributes>
+        <time><beats>${measure.numerator}</beats><beat-type>${measure.denominator}</beat-type></time>
+      </attributes>\n`;
+      }
+
+      if (!previous || Math.round(previous.tempo) !== Math.round(measure.tempo)) {
+        const bpm = Math.round(measure.tempo);
+        xml += `      <direction placement="above">
+        <direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>${bpm}</per-minute></metronome></direction-type>
+        <sound tempo="${bpm}"/>
+      </direction>\n`;
+      }
+
+      staves.forEach((segments, staffIndex) => {
+        if (staffIndex > 0) {
+          xml += `      <backup><duration>${measure.units}</duration></backup>\n`;
+        }
+        const result = this.renderStaffMeasure(segments, segmentIndex[staffIndex], measure, staffIndex + 1, useFlats);
+        segmentIndex[staffIndex] = result.nextSegment;
+        xml += result.xml;
+      });
+
+      return xml + '    </measure>\n';
+    }).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="3.1">
+  <work><work-title>${this.escapeXml(title)}</work-title></work>
+  <part-list>
+    <score-part id="P1"><part-name>Piano</part-name></score-part>
+  </part-list>
+  <part id="P1">
+${measureXml}  </part>
+</score-partwise>
+`;
+  }
+
+  /**
+   * Chords on one staff: each lasts until its longest note ends or the next chord starts
+   */
+  private buildSegments(notes: MidiFileNote[], quantize: (tick: number) => number): StaffSegment[] {
+    const chords = new Map<number, { end: number; notes: Map<number, number> }>(); // start -> chord (pitch -> velocity)
+    for (const note of notes) {
+      const start = quantize(note.startTick);
+      const end = Math.max(start + 1, quantize(note.endTick));
+      const chord = chords.get(start) || { end: 0, notes: new Map<number, number>() };
+      chord.end = Math.max(chord.end, end);
+      chord.notes.set(note.pitch, Math.max(chord.notes.get(note.pitch) || 0, note.velocity));
+      chords.set(start, chord);
+    }
+
+    const starts = [...chords.keys()].sort((a, b) => a - b);
+    return starts.map((start, i) => {
+      const chord = chords.get(start)!;
+      const nextStart = i + 1 < starts.length ? starts[i + 1] : Infinity;
+      return {
+        start,
+        end: Math.min(chord.end, nextStart),
+        notes: [...chord.notes.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([pitch, velocity]) => ({ pitch, velocity })),
+      };
+    });
+  }
+
+  /**
+   * Measures covering the music, following time signature changes. Each measure takes the
+   * tempo in effect at its start.
+   */
+  private buildMeasures(midi: MidiFileData, quantize: (tick: number) => number, lastUnit: number): GeneratedMeasure[] {
+    const measures: GeneratedMeasure[] = [];
+    let start = 0;
+
+    do {
+      const timeSignature = [...midi.timeSignatures].reverse().find(sig => quantize(sig.tick) <= start)
+        || { numerator: 4, denominator: 4 };
+      const tempo = [...midi.tempos].reverse().find(change => quantize(change.tick) <= start)?.bpm || 120;
+      const units = Math.max(1, Math.round(timeSignature.numerator * this.UNITS_PER_QUARTER * 4 / timeSignature.denominator));
+
+      measures.push({ start, units, numerator: timeSignature.numerator, denominator: timeSignature.denominator, tempo });
+      start += units;
+    } while (start < lastUnit);
+
+    return measures;
+  }
+
+  private renderStaffMeasure(
+    segments: StaffSegment[],
+    firstSegment: number,
+    measure: GeneratedMeasure,
+    staff: number,
+    useFlats: boolean
+  ): { xml: string; nextSegment: number } {
+    const measureEnd = measure.start + measure.units;
+    const voice = staff === 1 ? 1 : 2;
+    let xml = '';
+    let cursor = measure.start;
+    let index = firstSegment;
+
+    while (index < segments.length && segments[index].start < measureEnd) {
+      const segment = segments[index];
+      if (segment.start > cursor) {
+        xml += this.renderRest(segment.start - cursor, voice, staff);
+      }
+
+      // Split at the barline, tying into the next measure
+      const start = Math.max(segment.start, measure.start);
+      const end = Math.min(segment.end, measureEnd);
+      xml += this.renderChord(segment, end - start, segment.start < start, segment.end > end, voice, staff, useFlats);
+      cursor = end;
+
+      if (segment.end > measureEnd) break;
+      index++;
+    }
+
+    if (cursor === measure.start && xml === '') {
+      xml = `      <note><rest measure="yes"/><duration>${measure.units}</duration><voice>${voice}</voice><staff>${staff}</staff></note>\n`;
+    } else if (cursor < measureEnd) {
+      xml += this.renderRest(measureEnd - cursor, voice, staff);
+    }
+
+    return { xml, nextSegment: index };
+  }
+
+  private renderRest(units: number, voice: number, staff: number): string {
+    return this.splitDuration(units).map(([duration, type, dotted]) =>
+      `      <note><rest/><duration>${duration}</duration><voice>${voice}</voice><type>${type}</type>${dotted ? '<dot/>' : ''}<staff>${staff}</staff></note>\n`
+    ).join('');
+  }
+
+  private renderChord(
+    segment: StaffSegment,
+    units: number,
+    tiedFromPrevious: boolean,
+    tiedToNext: boolean,
+    voice: number,
+    staff: number,
+    useFlats: boolean
+  ): string {
+    const pieces = this.splitDuration(units);
+    let xml = '';
+
+    pieces.forEach(([duration, type, dotted], pieceIndex) => {
+      const tieStop = tiedFromPrevious || pieceIndex > 0;
+      const tieStart = tiedToNext || pieceIndex < pieces.length - 1;
+
+      segment.notes.forEach((note, noteIndex) => {
+        const { step, alter, octave } = this.spellPitch(note.pitch, useFlats);
+        const ties = (tieStop ? '<tie type="stop"/>' : '') + (tieStart ? '<tie type="start"/>' : '');
+        const tied = (tieStop ? '<tied type="stop"/>' : '') + (tieStart ? '<tied type="start"/>' : '');
+
+        xml += `      <note dynamics="${note.velocity}">` +
+          (noteIndex > 0 ? '<chord/>' : '') +
+          `<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>` +
+          `<duration>${duration}</duration>${ties}<voice>${voice}</voice><type>${type}</type>${dotted ? '<dot/>' : ''}` +
+          `<staff>${staff}</staff>${tied ? `<notations>${tied}</notations>` : ''}</note>\n`;
+      });
+    });
+
+    return xml;
+  }
+
+  /**
+   * Largest note values first, e.g. 7 sixteenths = dotted quarter + 16th
+   */
+  private splitDuration(units: number): [number, string, boolean][] {
+    const pieces: [number, string, boolean][] = [];
+    let remaining = units;
+    while (remaining > 0) {
+      const value = NOTE_VALUES.find(([duration]) => duration <= remaining)!;
+      pieces.push(value);
+      remaining -= value[0];
+    }
+    return pieces;
+  }
+
+  private spellPitch(pitch: number, useFlats: boolean): { step: string; alter: number; octave: number } {
+    const sharpSpelling: [string, number][] = [['C', 0], ['C', 1], ['D', 0], ['D', 1], ['E', 0], ['F', 0], ['F', 1], ['G', 0], ['G', 1], ['A', 0], ['A', 1], ['B', 0]];
+    const flatSpelling: [string, number][] = [['C', 0], ['D', -1], ['D', 0], ['E', -1], ['E', 0], ['F', 0], ['G', -1], ['G', 0], ['A', -1], ['A', 0], ['B', -1], ['B', 0]];
+    const [step, alter] = (useFlats ? flatSpelling : sharpSpelling)[pitch % 12];
+    return { step, alter, octave: Math.floor(pitch / 12) - 1 };
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -1,11 +1,24 @@
-import { WebMidi, Input } from 'webmidi';
-import type { MidiDevice } from './shared/types';
+import { WebMidi, Input, Output } from 'webmidi';
+import type { MidiDevice, PedalType } from './shared/types';
+
+// Control change numbers of the piano pedals
+const PEDAL_CONTROLLERS: Record<number, PedalType> = {
+  64: 'sustain',
+  66: 'sostenuto',
+  67: 'soft',
+};
 
 export class MidiHandler {
-  private currentInput: Input | null = null;
-  private pressedNotes = new Set<number>();
-  private onNoteOnCallback: ((note: number, velocity: number) => void) | null = null;
-  private onNoteOffCallback: ((note: number) => void) | null = null;
+  private inputs: Map<string, Input> = new Map(); // Connected inputs by device id
+  private currentOutput: Output | null = null;
+  private readonly SOUND_CHANNEL = 1; // Channel for notes sent to the output's sound engine
+  private keyLightChannel: number = 0; // Channel for key-light notes, 0 = off
+  private litKeys = new Set<number>();
+  private pressedNotes: Map<string, Set<number>> = new Map(); // Device id -> keys held on it
+  private onNoteOnCallback: ((note: number, velocity: number, deviceId: string) => void) | null = null;
+  private onNoteOffCallback: ((note: number, deviceId: string) => void) | null = null;
+  private onPedalCallback: ((pedal: PedalType, down: boolean, deviceId: string) => void) | null = null;
+  private pedalsDown: Map<string, Set<PedalType>> = new Map(); // Device id -> pedals held on it
   private onDeviceChangeCallback: ((devices: MidiDevice[]) => void) | null = null;
 
   async initialize(): Promise<void> {
@@ -39,51 +52,216 @@ export class MidiHandler {
     }));
   }
 
-  selectDevice(deviceId: string): void {
-    if (this.currentInput) {
-      this.currentInput.removeListener();
+  getAvailableOutputs(): MidiDevice[] {
+    return WebMidi.outputs.map(output => ({
+      id: output.id,
+      name: output.name,
+      manufacturer: output.manufacturer || 'Unknown',
+    }));
+  }
+
+  /**
+   * Send notes and key lights to an output device ('' for none)
+   */
+  selectOutput(deviceId: string): void {
+    this.setKeyLights([]);
+    this.stopAllNotes();
+    this.currentOutput = null;
+    if (!deviceId) return;
+
+    const output = WebMidi.getOutputById(deviceId);
+    if (!output) {
+      console.error('Output device not found:', deviceId);
+      return;
+    }
+
+    this.currentOutput = output;
+    console.log('Selected MIDI output:', output.name);
+  }
+
+  hasOutput(): boolean {
+    return this.currentOutput !== null;
+  }
+
+  getSelectedOutputId(): string {
+    return this.currentOutput?.id || '';
+  }
+
+  /**
+   * Play a note on the output's sound engine
+   * @param velocity 0-1
+   * @param delayMs How long from now the note should start
+   */
+  playNote(pitch: number, duration: number, velocity: number = 0.7, delayMs: number = 0): void {
+    if (!this.currentOutput) return;
+
+    this.currentOutput.channels[this.SOUND_CHANNEL].playNote(pitch, {
+      attack: Math.min(1, Math.max(0, velocity)),
+      duration: duration * 1000,
+      time: WebMidi.time + Math.max(0, delayMs),
+    });
+  }
+
+  /**
+   * Silence the output's sound channel (key lights are left alone)
+   */
+  stopAllNotes(): void {
+    if (!this.currentOutput) return;
+
+    this.currentOutput.clear(); // Drop notes scheduled for later
+    this.currentOutput.channels[this.SOUND_CHANNEL].sendAllNotesOff();
+  }
+
+  /**
+   * Channel the keyboard listens on for key lights (1-16), or 0 to turn them off
+   */
+  setKeyLightChannel(channel: number): void {
+    this.setKeyLights([]);
+    this.keyLightChannel = channel;
+  }
+
+  /**
+   * Light exactly these keys, sending note on/off only for keys that change
+   */
+  setKeyLights(notes: number[]): void {
+    if (!this.currentOutput || this.keyLightChannel === 0) {
+      this.litKeys.clear();
+      return;
     }
 
+    const channel = this.currentOutput.channels[this.keyLightChannel];
+    const wanted = new Set(notes);
+    this.litKeys.forEach(note => {
+      if (!wanted.has(note)) {
+        channel.sendNoteOff(note);
+        this.litKeys.delete(note);
+      }
+    });
+    wanted.forEach(note => {
+      if (!this.litKeys.has(note)) {
+        channel.sendNoteOn(note, { rawAttack: 1 });
+        this.litKeys.add(note);
+      }
+    });
+  }
+
+  /**
+   * Connect only this input, disconnecting any others
+   */
+  selectDevice(deviceId: string): void {
+    this.getConnectedDeviceIds()
+      .filter(id => id !== deviceId)
+      .forEach(id => this.disconnectDevice(id));
+    this.connectDevice(deviceId);
+  }
+
+  /**
+   * Listen to another input alongside those already connected
+   */
+  connectDevice(deviceId: string): void {
+    if (this.inputs.has(deviceId)) return;
+
     const input = WebMidi.getInputById(deviceId);
     if (!input) {
       console.error('Device not found:', deviceId);
       return;
     }
 
-    this.currentInput = input;
+    const pressedNotes = new Set<number>();
+    const pedalsDown = new Set<PedalType>();
+    this.inputs.set(deviceId, input);
+    this.pressedNotes.set(deviceId, pressedNotes);
+    this.pedalsDown.set(deviceId, pedalsDown);
     
     input.addListener('noteon', (e) => {
       const note = e.note.number;
-      this.pressedNotes.add(note);
+      pressedNotes.add(note);
       if (this.onNoteOnCallback) {
         // @ts-ignore - rawVelocity exists at runtime
-        this.onNoteOnCallback(note, e.rawVelocity || 127);
+        this.onNoteOnCallback(note, e.rawVelocity || 127, deviceId);
       }
     });
 
     input.addListener('noteoff', (e) => {
       const note = e.note.number;
-      this.pressedNotes.delete(note);
+      pressedNotes.delete(note);
       if (this.onNoteOffCallback) {
-        this.onNoteOffCallback(note);
+        this.onNoteOffCallback(note, deviceId);
+      }
+    });
+
+    input.addListener('controlchange', (e) => {
+      const pedal = PEDAL_CONTROLLERS[e.controller.number];
+      if (!pedal) return;
+      
+      // Half-pedalling values are treated as down from the midpoint
+      const down = (e.rawValue ?? 0) >= 64;
+      if (down === pedalsDown.has(pedal)) return;
+      
+      // A pedal counts as down while it's held on any device
+      const wasDown = this.isPedalDown(pedal);
+      if (down) {
+        pedalsDown.add(pedal);
+      } else {
+        pedalsDown.delete(pedal);
+      }
+      
+      if (this.onPedalCallback && this.isPedalDown(pedal) !== wasDown) {
+        this.onPedalCallback(pedal, down, deviceId);
       }
     });
 
-    console.log('Selected MIDI device:', input.name);
+    console.log('Connected MIDI device:', input.name);
   }
 
+  disconnectDevice(deviceId: string): void {
+    const input = this.inputs.get(deviceId);
+    if (!input) return;
+
+    input.removeListener();
+    this.inputs.delete(deviceId);
+
+    // Let go of anything still held on the device
+    this.pressedNotes.get(deviceId)?.forEach(note => this.onNoteOffCallback?.(note, deviceId));
+    this.pressedNotes.delete(deviceId);
+    const pedalsDown = this.pedalsDown.get(deviceId);
+    this.pedalsDown.delete(deviceId);
+    pedalsDown?.forEach(pedal => {
+      if (!this.isPedalDown(pedal)) this.onPedalCallback?.(pedal, false, deviceId);
+    });
+
+    console.log('Disconnected MIDI device:', input.name);
+  }
+
+  getConnectedDeviceIds(): string[] {
+    return [...this.inputs.keys()];
+  }
+
+  /**
+   * Keys held across all connected devices
+   */
   getPressedNotes(): Set<number> {
-    return new Set(this.pressedNotes);
+    const notes = new Set<number>();
+    this.pressedNotes.forEach(pressed => pressed.forEach(note => notes.add(note)));
+    return notes;
   }
 
-  onNoteOn(callback: (note: number, velocity: number) => void): void {
+  onNoteOn(callback: (note: number, velocity: number, deviceId: string) => void): void {
     this.onNoteOnCallback = callback;
   }
 
-  onNoteOff(callback: (note: number) => void): void {
+  onNoteOff(callback: (note: number, deviceId: string) => void): void {
     this.onNoteOffCallback = callback;
   }
 
+  onPedal(callback: (pedal: PedalType, down: boolean, deviceId: string) => void): void {
+    this.onPedalCallback = callback;
+  }
+
+  isPedalDown(pedal: PedalType): boolean {
+    return [...this.pedalsDown.values()].some(pedals => pedals.has(pedal));
+  }
+
   onDeviceChange(callback: (devices: MidiDevice[]) => void): void {
     this.onDeviceChangeCallback = callback;
   }
@@ -95,9 +273,11 @@ export class MidiHandler {
   }
 
   dispose(): void {
-    if (this.currentInput) {
-      this.currentInput.removeListener();
-    }
+    this.inputs.forEach(input => input.removeListener());
+    this.inputs.clear();
+    this.setKeyLights([]);
+    this.stopAllNotes();
     this.pressedNotes.clear();
+    this.pedalsDown.clear();
   }
 }
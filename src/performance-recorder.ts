@@ -0,0 +1,135 @@
+/**
+ * A key press or release from the MIDI keyboard
+ */
+interface RecordedEvent {
+  time: number; // performance.now()
+  type: 'on' | 'off';
+  pitch: number;
+  velocity: number; // 1-127 (0 for note off)
+  hand: 'left' | 'right';
+}
+
+/**
+ * Records the notes played during a practice run and writes them as a Standard MIDI File
+ */
+export class PerformanceRecorder {
+  private readonly PPQ = 480;
+  private events: RecordedEvent[] = [];
+  private lastTake: RecordedEvent[] = []; // The take before the current one, kept for export
+  private activeHands: Map<number, 'left' | 'right'> = new Map(); // pitch -> hand of the held key
+
+  noteOn(pitch: number, velocity: number, hand: 'left' | 'right'): void {
+    this.activeHands.set(pitch, hand);
+    this.events.push({ time: performance.now(), type: 'on', pitch, velocity, hand });
+  }
+
+  noteOff(pitch: number): void {
+    const hand = this.activeHands.get(pitch);
+    if (!hand) return;
+    this.activeHands.delete(pitch);
+    this.events.push({ time: performance.now(), type: 'off', pitch, velocity: 0, hand });
+  }
+
+  /**
+   * Finish the current take (if anything was played) and start recording a new one
+   */
+  startTake(): void {
+    if (this.events.some(event => event.type === 'on')) {
+      this.lastTake = this.events;
+    }
+    this.events = [];
+  }
+
+  /**
+   * Drop everything recorded, e.g. when the score changes
+   */
+  clear(): void {
+    this.events = [];
+    this.lastTake = [];
+  }
+
+  hasTake(): boolean {
+    return this.getTake().length > 0;
+  }
+
+  /**
+   * The current take as a format 1 MIDI file: a tempo track, then one track per hand.
+   * The take falls back to the previous one when nothing has been played since.
+   */
+  toMidiFile(bpm: number, title: string): Uint8Array<ArrayBuffer> {
+    const take = this.getTake();
+    const startTime = take.length > 0 ? take[0].time : 0;
+    const endTime = take.length > 0 ? take[take.length - 1].time : 0;
+    const ticksPerMs = this.PPQ * bpm / 60000;
+    const toTick = (time: number) => Math.round((time - startTime) * ticksPerMs);
+
+    const microsecondsPerQuarter = Math.round(60000000 / bpm);
+    const tempoTrack = [
+      ...this.metaText(0x03, title),
+      0, 0xff, 0x51, 3, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff,
+    ];
+
+    const handTracks = (['right', 'left'] as const).map((hand, channel) => {
+      const events: { tick: number; bytes: number[] }[] = [];
+      const held = new Set<number>();
+
+      for (const event of take) {
+        if (event.hand !== hand) continue;
+        if (event.type === 'on') {
+          // Release a key that is struck again before its note off
+          if (held.has(event.pitch)) events.push({ tick: toTick(event.time), bytes: [0x80 | channel, event.pitch, 0] });
+          held.add(event.pitch);
+          events.push({ tick: toTick(event.time), bytes: [0x90 | channel, event.pitch, Math.max(1, event.velocity)] });
+        } else if (held.delete(event.pitch)) {
+          events.push({ tick: toTick(event.time), bytes: [0x80 | channel, event.pitch, 0] });
+        }
+      }
+
+      // Keys still down at the end of the take
+      held.forEach(pitch => events.push({ tick: toTick(endTime), bytes: [0x80 | channel, pitch, 0] }));
+
+      const trackName = hand === 'right' ? 'Right Hand' : 'Left Hand';
+      const data = [...this.metaText(0x03, trackName), 0, 0xc0 | channel, 0]; // Acoustic Grand Piano
+      let lastTick = 0;
+      for (const event of events) {
+        data.push(...this.variableLength(event.tick - lastTick), ...event.bytes);
+        lastTick = event.tick;
+      }
+      return data;
+    });
+
+    const tracks = [tempoTrack, ...handTracks];
+    const header = [...this.ascii('MThd'), ...this.uint32(6), 0, 1, 0, tracks.length, (this.PPQ >> 8) & 0xff, this.PPQ & 0xff];
+    const chunks = tracks.map(track => {
+      const data = [...track, 0, 0xff, 0x2f, 0]; // End of track
+      return [...this.ascii('MTrk'), ...this.uint32(data.length), ...data];
+    });
+
+    return new Uint8Array([...header, ...chunks.flat()]);
+  }
+
+  private getTake(): RecordedEvent[] {
+    return this.events.some(event => event.type === 'on') ? this.events : this.lastTake;
+  }
+
+  private metaText(type: number, text: string): number[] {
+    const bytes = Array.from(new TextEncoder().encode(text));
+    return [0, 0xff, type, ...this.variableLength(bytes.length), ...bytes];
+  }
+
+  private variableLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    while ((value >>= 7) > 0) {
+      bytes.unshift((value & 0x7f) | 0x80);
+    }
+    return bytes;
+  }
+
+  private uint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  }
+
+  private ascii(text: string): number[] {
+    return [...text].map(char => char.charCodeAt(0));
+  }
+}
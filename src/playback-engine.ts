@@ -1,31 +1,91 @@
-import type { NoteGroup } from './shared/types';
+import * as Tone from 'tone';
+import type { NoteGroup, LoopRange, PedalMarking, Fermata, SwingMarking, HumanizeSettings, TempoRamp, TempoRampType } from './shared/types';
 import { SoundHandler } from './sound-handler';
 import type { RepeatHandler } from './repeat-handler';
+import type { Metronome } from './metronome';
+import { TempoMap } from './tempo-map';
+
+/**
+ * A note group placed on the Transport timeline
+ */
+interface ScheduledStep {
+  position: number;       // Position in playback sequence
+  noteGroupIndex: number;
+  tick: number;           // Transport ticks from the start of this playback run, swing included
+  tempo: number;          // Score BPM at this step, with rit./accel. and fermatas applied
+}
+
+/**
+ * A tempo change between steps (e.g. under a held note or through a rit.) on the Transport timeline
+ */
+interface ScheduledTempo {
+  tick: number;
+  tempo: number;
+}
+
+/**
+ * A metronome click on the Transport timeline
+ */
+interface ScheduledBeat {
+  tick: number;
+  accent: boolean;
+}
+
+// How far a rit./accel. takes the tempo by its end, against the tempo it started from, when no
+// tempo marking closes it
+const RAMP_FACTORS: Record<TempoRampType, number> = { ritardando: 0.75, accelerando: 1.25 };
+
+/**
+ * A random amount between -amount and amount
+ */
+function jitter(amount: number): number {
+  return (Math.random() * 2 - 1) * amount;
+}
 
 export class PlaybackEngine {
+  private readonly RAMP_RESOLUTION = 1 / 16; // Whole notes between tempo changes through a rit./accel.
+  private readonly MIN_RAMP_FACTOR = 0.4;
+  private readonly MAX_RAMP_FACTOR = 2;
+  private readonly EPSILON = 1e-6;
   private soundHandler: SoundHandler;
   private isPlaying: boolean = false;
+  private isPaused: boolean = false;
   private currentPlaybackPosition: number = 0; // Position in playback sequence
   private noteGroups: NoteGroup[] = [];
   private repeatHandler: RepeatHandler | null = null;
-  private timeoutId: number | null = null;
-  private onProgressCallback: ((index: number) => void) | null = null;
+  private onProgressCallback: ((index: number, position: number) => void) | null = null;
   private onCompleteCallback: (() => void) | null = null;
   private tempo: number = 120; // BPM, default to 120
   private tempoMultiplier: number = 1.0; // Speed multiplier
-  private activeNotes: Map<number, number> = new Map(); // pitch -> 1 (just tracking presence)
-  private startTime: number = 0;
-  private pausedTime: number = 0;
+  private currentTempo: number = 120; // Score BPM at the current step (before the multiplier)
+  private loopRange: LoopRange | null = null;
+  private pedalMarkings: PedalMarking[] = [];
+  private fermatas: Fermata[] = [];
+  private fermataHold: number = 2; // How many times its written length a fermata is held
+  private swingMarkings: SwingMarking[] = [];
+  private humanize: HumanizeSettings = { timingMs: 0, velocity: 0, chordSpreadMs: 0 };
+  private outputLatency: number = 0; // Seconds from starting a sound to hearing it
+  private metronome: Metronome | null = null;
+  private tempoMap: TempoMap = new TempoMap();
 
   constructor(soundHandler: SoundHandler) {
     this.soundHandler = soundHandler;
   }
 
-  loadScore(noteGroups: NoteGroup[], repeatHandler?: RepeatHandler): void {
+  /**
+   * The score to play; tempos are looked up in the tempo map by position
+   */
+  loadScore(noteGroups: NoteGroup[], repeatHandler?: RepeatHandler, tempoMap: TempoMap = new TempoMap()): void {
+    this.stop();
     this.noteGroups = noteGroups;
     this.repeatHandler = repeatHandler || null;
+    this.tempoMap = tempoMap;
     this.currentPlaybackPosition = 0;
-    
+    this.loopRange = null;
+    this.pedalMarkings = [];
+    this.fermatas = [];
+    this.swingMarkings = [];
+
     // Try to extract tempo from the score (would need to be passed in)
     // For now, use default 120 BPM
     this.tempo = 120;
@@ -35,32 +95,130 @@ export class PlaybackEngine {
     this.tempo = bpm;
   }
 
+  /**
+   * Sustain pedal markings from the score; notes released under the pedal ring on until it lifts
+   */
+  setPedalMarkings(markings: PedalMarking[]): void {
+    this.pedalMarkings = markings;
+  }
+
+  /**
+   * Fermatas from the score; playback holds them for the fermata hold factor
+   */
+  setFermatas(fermatas: Fermata[]): void {
+    this.fermatas = fermatas;
+  }
+
+  /**
+   * How many times its written length a fermata is held (1 plays it as written). Takes effect
+   * straight away, like a loop change.
+   */
+  setFermataHold(factor: number): void {
+    this.fermataHold = factor;
+
+    if (this.isPlaying) {
+      this.scheduleFrom(this.currentPlaybackPosition);
+    } else if (this.isPaused) {
+      this.scheduleFrom(this.currentPlaybackPosition, false);
+    }
+  }
+
+  /**
+   * Swing and straight markings from the score; swung notes are played long-short
+   */
+  setSwingMarkings(markings: SwingMarking[]): void {
+    this.swingMarkings = markings;
+  }
+
+  /**
+   * Timing and velocity jitter and chord spread, so playback sounds less mechanical.
+   * All zero plays the notes exactly as written.
+   */
+  setHumanize(settings: HumanizeSettings): void {
+    this.humanize = settings;
+  }
+
+  /**
+   * Measured audio output latency; cursor moves wait this long so they match what is heard
+   */
+  setOutputLatency(ms: number): void {
+    this.outputLatency = ms / 1000;
+  }
+
+  /**
+   * Metronome whose beats are scheduled with the notes, and whose count-in comes before play()
+   */
+  setMetronome(metronome: Metronome): void {
+    this.metronome = metronome;
+  }
+
   setTempoMultiplier(multiplier: number): void {
     this.tempoMultiplier = multiplier;
+
+    // Events are scheduled in ticks, so changing the BPM retimes everything still to come
+    if (this.isPlaying || this.isPaused) {
+      Tone.getTransport().bpm.value = this.currentTempo * this.tempoMultiplier;
+    }
   }
 
   async play(startIndex: number = 0): Promise<void> {
     if (this.isPlaying) return;
-    
+
+    // Ensure audio context is running
+    if (Tone.getContext().state !== 'running') {
+      await Tone.start();
+    }
+
     this.isPlaying = true;
+    this.isPaused = false;
     this.currentPlaybackPosition = startIndex;
-    this.activeNotes.clear();
-    this.startTime = performance.now();
-    this.pausedTime = 0;
-    
+
     // Pre-calculate total durations for tied notes
     this.calculateTiedNoteDurations();
-    
-    await this.playNextGroup();
+
+    this.scheduleFrom(startIndex, true, true);
+  }
+
+  /**
+   * Move playback to a position in the playback sequence, keeping the play/pause state
+   */
+  seek(position: number): void {
+    if (position < 0 || position >= this.getSequenceLength()) return;
+
+    this.currentPlaybackPosition = position;
+    if (this.isPlaying) {
+      this.scheduleFrom(position);
+    } else if (this.isPaused) {
+      // Reschedule now, start when resumed
+      this.scheduleFrom(position, false);
+    }
+  }
+
+  /**
+   * Loop a measure range on the Transport. Pass null to clear the loop.
+   */
+  setLoop(range: LoopRange | null): void {
+    this.loopRange = range;
+
+    // Reschedule from where we are so the change takes effect straight away
+    if (this.isPlaying) {
+      this.scheduleFrom(this.currentPlaybackPosition);
+    } else if (this.isPaused) {
+      this.scheduleFrom(this.currentPlaybackPosition, false);
+    }
+  }
+
+  getLoop(): LoopRange | null {
+    return this.loopRange;
   }
 
   private calculateTiedNoteDurations(): void {
     // Mark which notes are tie continuations and calculate total durations
     const activeTies = new Map<number, number>(); // pitch -> group index where tie started
-    
+
     for (let i = 0; i < this.noteGroups.length; i++) {
       const group = this.noteGroups[i];
-      
+
       for (const note of group.notes) {
         if (note.isTied) {
           // Check if this pitch is already in an active tie
@@ -70,14 +228,14 @@ export class PlaybackEngine {
           } else {
             // This is the start of a new tie
             activeTies.set(note.pitch, i);
-            
+
             // Calculate total duration by looking through ALL subsequent groups
             let totalDuration = note.duration;
-            
+
             for (let j = i + 1; j < this.noteGroups.length; j++) {
               const nextGroup = this.noteGroups[j];
               const tiedNote = nextGroup.notes.find(n => n.pitch === note.pitch);
-              
+
               if (tiedNote && tiedNote.isTied) {
                 // Found a continuation
                 totalDuration += tiedNote.duration;
@@ -87,7 +245,7 @@ export class PlaybackEngine {
               }
               // If note doesn't exist in this group, keep looking
             }
-            
+
             (note as any).totalDuration = totalDuration;
           }
         } else {
@@ -98,142 +256,384 @@ export class PlaybackEngine {
     }
   }
 
-  private async playNextGroup(): Promise<void> {
-    const sequenceLength = this.repeatHandler 
-      ? this.repeatHandler.getSequenceLength() 
+  private getSequenceLength(): number {
+    return this.repeatHandler
+      ? this.repeatHandler.getSequenceLength()
       : this.noteGroups.length;
-    
-    if (!this.isPlaying || this.currentPlaybackPosition >= sequenceLength) {
-      this.stop();
-      if (this.onCompleteCallback) {
-        this.onCompleteCallback();
+  }
+
+  private getNoteGroupIndex(position: number): number {
+    return this.repeatHandler
+      ? this.repeatHandler.getNoteGroupIndexForPosition(position)
+      : position;
+  }
+
+  /**
+   * Lay out the playback sequence from a position onwards in Transport ticks.
+   * Durations are in whole notes (OSMD fractions), so one unit is four quarter notes.
+   */
+  private buildTimeline(startPosition: number, endPosition: number): { steps: ScheduledStep[]; tempos: ScheduledTempo[]; beats: ScheduledBeat[]; endTick: number } {
+    const ppq = Tone.getTransport().PPQ;
+    const wholeNoteTicks = ppq * 4;
+    const sequenceLength = this.getSequenceLength();
+    const steps: ScheduledStep[] = [];
+    const tempos: ScheduledTempo[] = [];
+    const beats: ScheduledBeat[] = [];
+    let tick = 0;
+
+    for (let position = startPosition; position <= endPosition; position++) {
+      // Get the actual note group index from the playback sequence
+      const noteGroupIndex = this.getNoteGroupIndex(position);
+      if (noteGroupIndex < 0 || noteGroupIndex >= this.noteGroups.length) {
+        continue;
       }
-      return;
+
+      const currentGroup = this.noteGroups[noteGroupIndex];
+      const swingOffset = currentGroup.absoluteTime !== undefined ? this.getSwungTime(currentGroup.absoluteTime) - currentGroup.absoluteTime : 0;
+      steps.push({
+        position,
+        noteGroupIndex,
+        tick: tick + swingOffset * wholeNoteTicks,
+        tempo: currentGroup.absoluteTime !== undefined ? this.getPlaybackTempoAt(currentGroup.absoluteTime) : currentGroup.tempo || this.tempo,
+      });
+
+      // Calculate when the next group should play using absolute time positions
+      const nextNoteGroupIndex = position + 1 < sequenceLength ? this.getNoteGroupIndex(position + 1) : -1;
+      const nextGroup = this.noteGroups[nextNoteGroupIndex];
+
+      let advance: number;
+      if (nextGroup && currentGroup.absoluteTime !== undefined && nextGroup.absoluteTime !== undefined &&
+          nextNoteGroupIndex === noteGroupIndex + 1) {
+        // Normal sequential progression
+        advance = nextGroup.absoluteTime - currentGroup.absoluteTime;
+      } else {
+        // We're jumping (repeat or volta skip), at the end, or have no timing -
+        // use the longest duration of the current note group so all notes finish first
+        advance = this.getLongestDuration(currentGroup);
+      }
+
+      // Tempo changes before the next step; tempo markings further on only count when the
+      // score carries straight on, not across a jump
+      if (currentGroup.absoluteTime !== undefined) {
+        const start = currentGroup.absoluteTime;
+        const sequential = nextNoteGroupIndex === noteGroupIndex + 1;
+        for (const point of this.getTempoPoints(start, start + Math.max(0, advance), sequential)) {
+          tempos.push({ tick: tick + (point - start) * wholeNoteTicks, tempo: this.getPlaybackTempoAt(point) });
+        }
+      }
+
+      // Metronome beats up to the next step
+      if (this.metronome && currentGroup.absoluteTime !== undefined) {
+        const start = currentGroup.absoluteTime;
+        for (const beat of this.metronome.getBeats(start, start + Math.max(0, advance))) {
+          beats.push({ tick: tick + (beat.time - start) * wholeNoteTicks, accent: beat.accent });
+        }
+      }
+
+      tick += Math.max(0, advance) * wholeNoteTicks;
     }
 
-    // Get the actual note group index from the playback sequence
-    const noteGroupIndex = this.repeatHandler
-      ? this.repeatHandler.getNoteGroupIndexForPosition(this.currentPlaybackPosition)
-      : this.currentPlaybackPosition;
-    
-    if (noteGroupIndex < 0 || noteGroupIndex >= this.noteGroups.length) {
-      this.currentPlaybackPosition++;
-      await this.playNextGroup();
-      return;
+    return { steps, tempos, beats, endTick: tick };
+  }
+
+  /**
+   * Where a position is played once swing is applied: in each pair of swung notes the second
+   * moves to the swing ratio, and positions between are stretched or squeezed to match. Pairs
+   * are counted back from the end of the measure so pickups line up. Positions off the grid of
+   * half the swung note (e.g. written triplets) are left alone.
+   */
+  private getSwungTime(absoluteTime: number): number {
+    let swing: SwingMarking | null = null;
+    for (const marking of this.swingMarkings) {
+      if (marking.absoluteTime > absoluteTime + this.EPSILON) break;
+      swing = marking;
     }
-    
-    const currentGroup = this.noteGroups[noteGroupIndex];
-    
-    // Use tempo from the note group if available
-    const tempo = currentGroup.tempo || this.tempo;
-    
-    // Notify progress with the note group index (for cursor positioning)
-    if (this.onProgressCallback) {
-      this.onProgressCallback(noteGroupIndex);
+    const measure = this.tempoMap.getMeasureAt(absoluteTime);
+    if (!swing || !measure || Math.abs(swing.ratio - 0.5) < this.EPSILON) return absoluteTime;
+
+    const pair = swing.unit * 2;
+    let within = (pair - (measure.absoluteTime + measure.duration - absoluteTime) % pair) % pair;
+    if (within > pair - this.EPSILON) within = 0;
+
+    const grid = within / (swing.unit / 2);
+    if (Math.abs(grid - Math.round(grid)) > 1e-3) return absoluteTime;
+
+    const swungWithin = within <= swing.unit
+      ? within / swing.unit * pair * swing.ratio
+      : pair * swing.ratio + (within - swing.unit) / swing.unit * pair * (1 - swing.ratio);
+    return absoluteTime + swungWithin - within;
+  }
+
+  /**
+   * Tempo playback uses at a point: the notated tempo, carried along any rit./accel. and
+   * slowed through fermatas
+   */
+  private getPlaybackTempoAt(absoluteTime: number): number {
+    const inFermata = this.fermatas.some(fermata =>
+      fermata.absoluteTime <= absoluteTime + this.EPSILON && absoluteTime < fermata.absoluteTime + fermata.duration - this.EPSILON
+    );
+    return this.tempoMap.getTempoAt(absoluteTime) * this.getRampFactorAt(absoluteTime) / (inFermata ? this.fermataHold : 1);
+  }
+
+  /**
+   * How far rit./accel. spans have taken the tempo from the notated one at a point. A span
+   * eases from wherever the last one left off towards the tempo marking that closes it, and a
+   * tempo marking (e.g. a tempo) resets it.
+   */
+  private getRampFactorAt(absoluteTime: number): number {
+    let factor = 1;
+    let heldSince = 0; // A tempo marking after this resets the factor
+    for (const ramp of this.tempoMap.getRamps()) {
+      if (ramp.startTime > absoluteTime + this.EPSILON) break;
+      if (this.hasTempoMarking(heldSince, ramp.startTime)) factor = 1;
+
+      const target = this.getRampTarget(ramp, factor);
+      if (absoluteTime < ramp.endTime - this.EPSILON) {
+        return factor + (target - factor) * (absoluteTime - ramp.startTime) / (ramp.endTime - ramp.startTime);
+      }
+      factor = target;
+      heldSince = ramp.endTime;
     }
+    if (this.hasTempoMarking(heldSince, absoluteTime)) factor = 1;
+    return factor;
+  }
 
-    // Play notes in the current group, handling ties
-    await this.playNoteGroupWithTies(currentGroup, tempo);
-
-    // Calculate when the next group should play using absolute time positions
-    let delay = 0;
-    const nextPlaybackPosition = this.currentPlaybackPosition + 1;
-    
-    if (nextPlaybackPosition < sequenceLength) {
-      const nextNoteGroupIndex = this.repeatHandler
-        ? this.repeatHandler.getNoteGroupIndexForPosition(nextPlaybackPosition)
-        : nextPlaybackPosition;
-      
-      if (nextNoteGroupIndex >= 0 && nextNoteGroupIndex < this.noteGroups.length) {
-        const nextGroup = this.noteGroups[nextNoteGroupIndex];
-        
-        // Calculate delay based on absolute time difference
-        if (currentGroup.absoluteTime !== undefined && nextGroup.absoluteTime !== undefined) {
-          // Check if we're jumping (non-sequential note group indices or going backward)
-          const isJump = (nextNoteGroupIndex !== noteGroupIndex + 1);
-          
-          if (isJump) {
-            // We're jumping (repeat or volta skip) - use the longest duration of the current note group
-            // to ensure all notes finish playing before jumping
-            let longestDuration = 0;
-            for (const note of currentGroup.notes) {
-              const noteDuration = (note as any).totalDuration || note.duration;
-              longestDuration = Math.max(longestDuration, noteDuration);
-            }
-            const msPerQuarterNote = 60000 / tempo;
-            delay = longestDuration * msPerQuarterNote * 4 / this.tempoMultiplier;
-          } else {
-            // Normal sequential progression
-            const timeDiff = nextGroup.absoluteTime - currentGroup.absoluteTime;
-            const msPerQuarterNote = 60000 / tempo;
-            delay = timeDiff * msPerQuarterNote * 4 / this.tempoMultiplier; // Apply tempo multiplier
-          }
-        } else {
-          // Fallback to shortest duration
-          let shortestDuration = Infinity;
-          for (const note of currentGroup.notes) {
-            if (!note.isTied || !this.activeNotes.has(note.pitch)) {
-              shortestDuration = Math.min(shortestDuration, note.duration);
-            }
-          }
-          
-          if (shortestDuration === Infinity) {
-            shortestDuration = 0.01;
-          }
-          
-          const msPerQuarterNote = 60000 / tempo;
-          delay = shortestDuration * msPerQuarterNote * 4 / this.tempoMultiplier;
-        }
+  /**
+   * Factor a rit./accel. ends on: the tempo marking that closes it (e.g. the metronome mark after
+   * an accel.) if it moves the way the span does, otherwise a fixed step from where it started
+   */
+  private getRampTarget(ramp: TempoRamp, startFactor: number): number {
+    const startTempo = this.tempoMap.getTempoAt(ramp.startTime) * startFactor;
+    const closing = this.tempoMap.getTempoChanges(ramp.endTime, ramp.endTime + this.EPSILON * 2)[0];
+    if (closing && (ramp.type === 'accelerando' ? closing.bpm > startTempo : closing.bpm < startTempo)) {
+      return closing.bpm / this.tempoMap.getTempoAt(ramp.startTime);
+    }
+    return Math.min(this.MAX_RAMP_FACTOR, Math.max(this.MIN_RAMP_FACTOR, startFactor * RAMP_FACTORS[ramp.type]));
+  }
+
+  /**
+   * Whether a tempo marking falls between two positions, both included
+   */
+  private hasTempoMarking(from: number, to: number): boolean {
+    return this.tempoMap.getTempoMarkings().some(marking =>
+      marking.absoluteTime >= from - this.EPSILON && marking.absoluteTime <= to + this.EPSILON
+    );
+  }
+
+  /**
+   * Points strictly between two positions where the playback tempo changes: fermata starts and
+   * ends, steps through rit./accel. spans and, if asked for, tempo markings
+   */
+  private getTempoPoints(from: number, to: number, includeMarkings: boolean): number[] {
+    const points: number[] = [];
+    if (includeMarkings) {
+      this.tempoMap.getTempoChanges(from, to).forEach(marking => points.push(marking.absoluteTime));
+    }
+    for (const ramp of this.tempoMap.getRamps()) {
+      if (ramp.endTime < from || ramp.startTime > to) continue;
+      const first = Math.max(0, Math.ceil((from - ramp.startTime) / this.RAMP_RESOLUTION));
+      for (let time = ramp.startTime + first * this.RAMP_RESOLUTION; time < Math.min(to, ramp.endTime); time += this.RAMP_RESOLUTION) {
+        points.push(time);
       }
+      points.push(ramp.endTime);
+    }
+    for (const fermata of this.fermatas) {
+      points.push(fermata.absoluteTime, fermata.absoluteTime + fermata.duration);
     }
 
-    this.currentPlaybackPosition++;
+    return [...new Set(points)]
+      .filter(point => point > from + this.EPSILON && point < to - this.EPSILON)
+      .sort((a, b) => a - b);
+  }
 
-    // Schedule next group
-    this.timeoutId = window.setTimeout(() => {
-      this.playNextGroup();
-    }, delay);
+  /**
+   * Seconds between two positions at the playback tempo (including the multiplier)
+   */
+  private getPlaybackSeconds(from: number, to: number): number {
+    let seconds = 0;
+    let time = from;
+    for (const point of [...this.getTempoPoints(from, to, true), to]) {
+      seconds += (point - time) * 4 * 60 / this.getPlaybackTempoAt(time);
+      time = point;
+    }
+    return seconds / this.tempoMultiplier;
   }
 
-  private async playNoteGroupWithTies(noteGroup: NoteGroup, tempo: number): Promise<void> {
-    const msPerQuarterNote = 60000 / tempo;
+  /**
+   * How long a note sounds (whole notes) once the sustain pedal is taken into account
+   */
+  private getPedalledDuration(start: number | undefined, duration: number): number {
+    if (start === undefined || this.pedalMarkings.length === 0) return duration;
+
+    const epsilon = 1e-6;
+    const end = start + duration;
 
+    // Is the pedal down when the key comes up?
+    const lastBefore = [...this.pedalMarkings].reverse().find(marking => marking.absoluteTime < end - epsilon);
+    if (!lastBefore || lastBefore.type === 'up') return duration;
+
+    const release = this.pedalMarkings.find(marking => marking.absoluteTime >= end - epsilon && marking.type !== 'down');
+    return release ? Math.max(duration, release.absoluteTime - start) : duration;
+  }
+
+  private getLongestDuration(noteGroup: NoteGroup): number {
+    let longestDuration = 0;
     for (const note of noteGroup.notes) {
-      // Skip if this is a tie continuation
-      if ((note as any).isTieContinuation) {
-        continue;
+      if ((note as any).isTieContinuation) continue;
+      const noteDuration = (note as any).totalDuration || note.duration;
+      longestDuration = Math.max(longestDuration, noteDuration);
+    }
+    return longestDuration;
+  }
+
+  /**
+   * Clear the Transport and schedule every step from the given position, after the metronome's
+   * count-in if asked for
+   */
+  private scheduleFrom(startPosition: number, startTransport: boolean = true, countIn: boolean = false): void {
+    const transport = Tone.getTransport();
+    transport.stop();
+    transport.cancel();
+    transport.loop = false;
+    transport.position = 0;
+    this.soundHandler.stopAccompaniment();
+
+    const loopPositions = this.loopRange && this.repeatHandler
+      ? this.repeatHandler.getPositionRangeForMeasures(this.loopRange.startMeasure, this.loopRange.endMeasure, startPosition)
+      : null;
+
+    // Starting after the loop means starting at its beginning; starting before it plays into it
+    if (loopPositions && startPosition > loopPositions.end) {
+      startPosition = loopPositions.start;
+    }
+
+    const endPosition = loopPositions ? loopPositions.end : this.getSequenceLength() - 1;
+    const { steps, tempos, beats, endTick } = this.buildTimeline(startPosition, endPosition);
+    if (steps.length === 0) {
+      this.finish();
+      return;
+    }
+
+    // The count-in goes first, at the notated opening tempo (not slowed by a fermata on the
+    // first notes), and everything else waits for it
+    const wholeNoteTicks = transport.PPQ * 4;
+    const firstGroup = this.noteGroups[steps[0].noteGroupIndex];
+    this.currentTempo = firstGroup.absoluteTime !== undefined ? this.tempoMap.getTempoAt(firstGroup.absoluteTime) : steps[0].tempo;
+    transport.bpm.value = this.currentTempo * this.tempoMultiplier;
+    const countInBeats = countIn && this.metronome ? this.metronome.getCountIn(firstGroup.absoluteTime ?? 0) : null;
+    const offset = countInBeats ? countInBeats.duration * wholeNoteTicks : 0;
+    countInBeats?.beats.forEach(beat => {
+      transport.schedule((time) => this.metronome!.playBeat(time, beat.accent, true), `${Math.round(beat.time * wholeNoteTicks)}i`);
+    });
+
+    for (const step of steps) {
+      transport.schedule((time) => this.playStep(step, time), `${Math.round(step.tick + offset)}i`);
+    }
+    for (const tempo of tempos) {
+      transport.schedule((time) => this.applyTempo(tempo.tempo, time), `${Math.round(tempo.tick + offset)}i`);
+    }
+    for (const beat of beats) {
+      transport.schedule((time) => this.metronome!.playBeat(time, beat.accent), `${Math.round(beat.tick + offset)}i`);
+    }
+
+    const loopStartStep = loopPositions ? steps.find(step => step.position >= loopPositions.start) : undefined;
+    if (loopStartStep && endTick > loopStartStep.tick) {
+      // Let the Transport wrap the loop region sample-accurately
+      transport.loopStart = `${Math.round(loopStartStep.tick + offset)}i`;
+      transport.loopEnd = `${Math.round(endTick + offset)}i`;
+      transport.loop = true;
+    } else {
+      // Finish once the last notes have sounded
+      transport.schedule((time) => {
+        Tone.getDraw().schedule(() => this.finish(), time + this.outputLatency);
+      }, `${Math.round(endTick + offset)}i`);
+    }
+
+    if (startTransport) {
+      // Small lead so the first notes are not clipped
+      transport.start('+0.05');
+    }
+  }
+
+  /**
+   * Change the Transport tempo sample-accurately at an audio time
+   */
+  private applyTempo(tempo: number, time: number): void {
+    if (tempo === this.currentTempo) return;
+    this.currentTempo = tempo;
+    Tone.getTransport().bpm.setValueAtTime(this.currentTempo * this.tempoMultiplier, time);
+  }
+
+  private playStep(step: ScheduledStep, time: number): void {
+    // Apply tempo changes exactly on the step they belong to
+    this.applyTempo(step.tempo, time);
+
+    const noteGroup = this.noteGroups[step.noteGroupIndex];
+    const start = noteGroup.absoluteTime;
+
+    // Skip tie continuations; the rest go lowest first so a chord spreads upwards
+    const notes = noteGroup.notes
+      .filter(note => !(note as any).isTieContinuation)
+      .sort((a, b) => a.pitch - b.pitch);
+    const groupOffset = jitter(this.humanize.timingMs) / 1000;
+    const spread = Math.random() * this.humanize.chordSpreadMs / 1000;
+
+    notes.forEach((note, i) => {
+      // Notes held through tempo changes, rit./accel. and fermatas last as long as the playback
+      // tempo says, and swung notes end where the next swung note starts
+      const playDuration = this.getPedalledDuration(start, (note as any).totalDuration || note.duration);
+      const seconds = start !== undefined
+        ? this.getPlaybackSeconds(this.getSwungTime(start), this.getSwungTime(start + playDuration))
+        : playDuration * 4 * 60 / (this.currentTempo * this.tempoMultiplier);
+
+      const delay = notes.length > 1 ? spread * i / (notes.length - 1) : 0;
+      const velocity = Math.min(1, Math.max(0.05, note.velocity + jitter(this.humanize.velocity)));
+      this.soundHandler.playNoteAt(note.pitch, Math.max(0.05, seconds - delay), Math.max(Tone.immediate(), time + groupOffset + delay), velocity, note.hand);
+    });
+
+    // Keep the cursor in step with what is heard
+    Tone.getDraw().schedule(() => {
+      if (!this.isPlaying) return;
+      this.currentPlaybackPosition = step.position;
+      if (this.onProgressCallback) {
+        this.onProgressCallback(step.noteGroupIndex, step.position);
       }
-      
-      // Play the note
-      const playDuration = (note as any).totalDuration || note.duration;
-      const duration = playDuration * msPerQuarterNote * 4 / this.tempoMultiplier / 1000; // Apply tempo multiplier, convert to seconds
-      await this.soundHandler.playNote(note.pitch, duration, note.velocity);
+    }, time + this.outputLatency);
+  }
+
+  private finish(): void {
+    if (!this.isPlaying) return;
+    this.stop();
+    if (this.onCompleteCallback) {
+      this.onCompleteCallback();
     }
   }
 
   stop(): void {
     this.isPlaying = false;
-    if (this.timeoutId !== null) {
-      clearTimeout(this.timeoutId);
-      this.timeoutId = null;
-    }
-    
-    // Clear all active tied notes
-    this.activeNotes.clear();
-    
-    this.soundHandler.stopAllNotes();
+    this.isPaused = false;
+
+    const transport = Tone.getTransport();
+    transport.stop();
+    transport.cancel();
+
+    this.soundHandler.stopAccompaniment();
   }
 
   pause(): void {
+    if (!this.isPlaying) return;
     this.isPlaying = false;
-    if (this.timeoutId !== null) {
-      clearTimeout(this.timeoutId);
-      this.timeoutId = null;
-    }
+    this.isPaused = true;
+    Tone.getTransport().pause();
+    this.soundHandler.stopAccompaniment();
   }
 
   resume(): void {
-    if (!this.isPlaying && this.currentPlaybackPosition < (this.repeatHandler ? this.repeatHandler.getSequenceLength() : this.noteGroups.length)) {
+    if (this.isPaused) {
+      this.isPlaying = true;
+      this.isPaused = false;
+      Tone.getTransport().start();
+    } else if (!this.isPlaying && this.currentPlaybackPosition < this.getSequenceLength()) {
       this.play(this.currentPlaybackPosition);
     }
   }
@@ -244,13 +644,10 @@ export class PlaybackEngine {
 
   getCurrentIndex(): number {
     // Return the note group index for compatibility
-    if (this.repeatHandler) {
-      return this.repeatHandler.getNoteGroupIndexForPosition(this.currentPlaybackPosition);
-    }
-    return this.currentPlaybackPosition;
+    return this.getNoteGroupIndex(this.currentPlaybackPosition);
   }
 
-  onProgress(callback: (index: number) => void): void {
+  onProgress(callback: (index: number, position: number) => void): void {
     this.onProgressCallback = callback;
   }
 
@@ -1,5 +1,33 @@
-import type { NoteGroup, PracticeMode, PracticeState, Note } from './shared/types';
+import type { NoteGroup, PracticeMode, PracticeState, Note, LoopRange, TimingMode, TimingWindows, TimingGrade, TimingResult, PracticeMistake, MeasureStats, PedalMarking, PedalType, MidiInputHand, DynamicMarking, DynamicLevel, DynamicsFeedback, MetronomeBeat } from './shared/types';
 import type { RepeatHandler } from './repeat-handler';
+import type { Metronome } from './metronome';
+import { TempoMap } from './tempo-map';
+
+/**
+ * A note group on the play-along timeline
+ */
+interface TimedStep {
+  position: number;       // Position in playback sequence
+  noteGroupIndex: number;
+  time: number;           // ms from the start of the timeline at score tempo (before the multiplier)
+  expected: number[];     // Pitches that need a fresh key press (tie continuations excluded)
+  graded: Set<number>;    // Pitches already graded
+}
+
+/**
+ * Velocity of a correctly played note, for the dynamics check
+ */
+interface VelocitySample {
+  hand: 'left' | 'right';
+  time: number;           // absoluteTime of the note's group
+  measureIndex: number;
+  velocity: number;       // 1-127
+}
+
+// Velocity each dynamic level aims for
+const DYNAMIC_VELOCITIES: Record<DynamicLevel, number> = {
+  ppp: 16, pp: 33, p: 49, mp: 64, mf: 80, f: 96, ff: 112, fff: 127,
+};
 
 export class PracticeEngine {
   private state: PracticeState = {
@@ -11,18 +39,86 @@ export class PracticeEngine {
   };
   
   private practiceMode: PracticeMode = 'both';
+  private handPresses: Record<MidiInputHand, Set<number>> = { both: new Set(), left: new Set(), right: new Set() }; // Held keys by the hand of their device
   private repeatHandler: RepeatHandler | null = null;
+  private tempoMap: TempoMap = new TempoMap();
   private currentPlaybackPosition: number = 0; // Position in playback sequence
+  private loopRange: LoopRange | null = null;
+  private loopPositions: { start: number; end: number } | null = null; // Loop range in playback positions
   private onProgressCallback: ((state: PracticeState) => void) | null = null;
   private onAutoPlayCallback: ((notes: Note[], tempo: number) => void) | null = null;
   private onCompleteCallback: (() => void) | null = null;
+  private onTimingGradeCallback: ((grade: TimingGrade) => void) | null = null;
+  private onMistakeCallback: ((mistake: PracticeMistake) => void) | null = null;
+  private onPassCompleteCallback: ((mistakes: number) => void) | null = null;
+
+  // Mistake tracking
+  private readonly HESITATION_THRESHOLD_MS = 750;
+  private mistakes: PracticeMistake[] = [];
+  private groupStartTime: number | null = null; // When the current group became playable (null right after a jump)
+  private groupExpectedGapMs: number = 0; // Notated time between the previous group and the current one
+  private measureStats: Map<number, MeasureStats> = new Map(); // measureIndex -> stats, kept across runs
+  private runMeasureStats: Map<number, MeasureStats> = new Map(); // measureIndex -> stats for the current run
+  private runStartedAt: number | null = null; // Date.now() of the first note of the run
+  private runLastActivityAt: number = 0;
+  private passMistakes: number = 0; // Wrong, extra and missed notes and hesitations in this pass of the loop or piece
+  private passFromStart: boolean = true; // Whether this pass began at the loop or piece start
+
+  // Pedal checking (wait mode)
+  private pedalMarkings: PedalMarking[] = [];
+  private pedalGrading: boolean = false;
+  private sustainDown: boolean = false;
+
+  // Dynamics checking
+  private readonly DYNAMICS_TOLERANCE = 20; // Average velocity either side of a level's target that still passes
+  private readonly MIN_DYNAMICS_NOTES = 3; // Fewer notes than this under a marking aren't judged
+  private readonly MIN_HAIRPIN_CHANGE = 6; // Velocity a crescendo must gain (or a diminuendo lose)
+  private dynamicMarkings: DynamicMarking[] = [];
+  private dynamicsGrading: boolean = false;
+  private velocitySamples: VelocitySample[] = []; // Correct notes in the current run
+
+  // Play-along (timed) mode
+  private timingMode: TimingMode = 'wait';
+  private timingWindows: TimingWindows = { onTime: 75, early: 175, late: 175 };
+  private tempoMultiplier: number = 1.0;
+  private timedSteps: TimedStep[] = [];
+  private timedEndTime: number = 0; // Score ms when the last step has finished
+  private timedStepIndex: number = 0; // Step the cursor is on
+  private missCheckIndex: number = 0; // Steps before this are fully graded
+  private clockStart: number | null = null; // performance.now() at clockScoreTime, null until the first note
+  private clockScoreTime: number = 0;
+  private timedTimeoutId: number | null = null;
+  private timingStats: Record<TimingResult, number> = { 'early': 0, 'on-time': 0, 'late': 0, 'missed': 0 };
+  private inputLatencyMs: number = 0; // Key press to the app receiving it
+  private outputLatencyMs: number = 0; // Starting a sound to hearing it
 
-  loadScore(noteGroups: NoteGroup[], repeatHandler?: RepeatHandler): void {
+  // Metronome and count-in (play along)
+  private readonly BEAT_SCHEDULE_AHEAD_MS = 50; // Clicks are queued on the audio clock this early
+  private metronome: Metronome | null = null;
+  private timedBeats: { time: number; accent: boolean }[] = []; // Score ms, like TimedStep.time
+  private beatIndex: number = 0; // Next beat to queue
+  private countInPending: boolean = false; // Counting in: the first step's other hand hasn't come in yet
+
+  /**
+   * The score to practise; tempos for auto-play and play along are looked up in the tempo map
+   */
+  loadScore(noteGroups: NoteGroup[], repeatHandler?: RepeatHandler, tempoMap: TempoMap = new TempoMap()): void {
+    this.stopTimedClock();
     this.state.score = noteGroups;
     this.repeatHandler = repeatHandler || null;
+    this.tempoMap = tempoMap;
     this.currentPlaybackPosition = 0;
+    this.loopRange = null;
+    this.loopPositions = null;
+    this.mistakes = [];
+    this.measureStats = new Map();
+    this.pedalMarkings = [];
+    this.dynamicMarkings = [];
+    this.beginRun();
+    this.beginPass();
+    this.groupStartTime = null;
     this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
-    this.state.pressedNotes.clear();
+    this.clearPressedNotes();
     this.state.correctNotesPressed.clear();
     console.log(`Loaded score with ${noteGroups.length} note groups`);
     
@@ -45,22 +141,169 @@ export class PracticeEngine {
     this.state.isPlaying = true;
     // Skip empty groups when starting
     this.skipEmptyGroups();
+    this.restartTimedClock();
     this.notifyProgress();
   }
 
   pause(): void {
     this.state.isPlaying = false;
+    this.stopTimedClock();
     this.notifyProgress();
   }
 
   reset(): void {
     this.currentPlaybackPosition = 0;
     this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
-    this.state.pressedNotes.clear();
+    this.clearPressedNotes();
     this.state.correctNotesPressed.clear();
+    this.mistakes = [];
+    this.groupStartTime = null;
+    this.beginRun();
+    this.beginPass();
+    this.restartTimedClock();
     this.notifyProgress();
   }
 
+  /**
+   * Start collecting a fresh run for the session history
+   */
+  beginRun(): void {
+    this.runMeasureStats = new Map();
+    this.runStartedAt = null;
+    this.runLastActivityAt = 0;
+    this.velocitySamples = [];
+  }
+
+  /**
+   * The current run's timing and per-measure stats, or null if nothing has been played yet
+   */
+  getRunSummary(): { startedAt: number; durationMs: number; measures: Map<number, MeasureStats>; dynamics: DynamicsFeedback[] } | null {
+    if (this.runStartedAt === null) return null;
+
+    const measures = new Map<number, MeasureStats>();
+    this.runMeasureStats.forEach((stats, measureIndex) => measures.set(measureIndex, { ...stats }));
+    return {
+      startedAt: this.runStartedAt,
+      durationMs: this.runLastActivityAt - this.runStartedAt,
+      measures,
+      dynamics: this.getDynamicsFeedback(),
+    };
+  }
+
+  /**
+   * 'wait' advances when the right notes are held; 'timed' moves the cursor at the score
+   * tempo and grades each note as early, on time, late or missed
+   */
+  setTimingMode(mode: TimingMode): void {
+    this.timingMode = mode;
+    this.restartTimedClock();
+    this.notifyProgress();
+  }
+
+  getTimingMode(): TimingMode {
+    return this.timingMode;
+  }
+
+  setTimingWindows(windows: TimingWindows): void {
+    this.timingWindows = { ...windows };
+  }
+
+  /**
+   * Metronome for play along: its beats click with the clock, and with a count-in the first key
+   * press counts in rather than starting the clock on the beat
+   */
+  setMetronome(metronome: Metronome): void {
+    this.metronome = metronome;
+  }
+
+  /**
+   * Measured latencies for play along: presses are graded at the time they were played, and
+   * the cursor and auto-played hand move early enough to be heard on the beat
+   */
+  setLatency(inputMs: number, outputMs: number): void {
+    this.inputLatencyMs = inputMs;
+    this.outputLatencyMs = outputMs;
+    this.scheduleTimedTick();
+  }
+
+  getTimingWindows(): TimingWindows {
+    return { ...this.timingWindows };
+  }
+
+  setTempoMultiplier(multiplier: number): void {
+    // Re-anchor the clock so the change applies from now on
+    if (this.clockStart !== null) {
+      const now = performance.now();
+      this.clockScoreTime = this.getScoreTime(now);
+      this.clockStart = now;
+    }
+    this.tempoMultiplier = multiplier;
+    if (this.clockStart !== null) {
+      this.scheduleTimedTick();
+    }
+  }
+
+  getTimingStats(): Record<TimingResult, number> {
+    return { ...this.timingStats };
+  }
+
+  /**
+   * Mistakes recorded since the score was loaded or reset
+   */
+  getMistakes(): PracticeMistake[] {
+    return [...this.mistakes];
+  }
+
+  /**
+   * Per-measure totals across every run of this score (resets and jumps keep them)
+   */
+  getMeasureStats(): Map<number, MeasureStats> {
+    return new Map(this.measureStats);
+  }
+
+  /**
+   * Restore totals saved from earlier sessions
+   */
+  setMeasureStats(stats: Map<number, MeasureStats>): void {
+    this.measureStats = new Map(stats);
+  }
+
+  /**
+   * Error rate per measure, 0 (clean) to 1: wrong notes plus seconds of hesitation
+   * per note played
+   */
+  getMeasureErrorRates(): Map<number, number> {
+    const rates = new Map<number, number>();
+    this.measureStats.forEach((stats, measureIndex) => {
+      const errors = stats.wrongNotes + stats.hesitationMs / 1000;
+      if (errors > 0) {
+        rates.set(measureIndex, Math.min(1, errors / Math.max(1, stats.notesPlayed)));
+      }
+    });
+    return rates;
+  }
+
+  /**
+   * Apply an update to the measure's totals and to the current run
+   */
+  private updateMeasureStats(noteGroupIndex: number, update: (stats: MeasureStats) => void): void {
+    const group = this.state.score[noteGroupIndex];
+    if (!group) return;
+
+    const now = Date.now();
+    if (this.runStartedAt === null) this.runStartedAt = now;
+    this.runLastActivityAt = now;
+
+    for (const statsMap of [this.measureStats, this.runMeasureStats]) {
+      let stats = statsMap.get(group.measureIndex);
+      if (!stats) {
+        stats = { notesPlayed: 0, wrongNotes: 0, hesitationMs: 0 };
+        statsMap.set(group.measureIndex, stats);
+      }
+      update(stats);
+    }
+  }
+
   jumpToNoteGroup(index: number): void {
     if (index >= 0 && index < this.state.score.length) {
       // Find the playback position for this note group index
@@ -72,15 +315,106 @@ export class PracticeEngine {
       } else {
         this.currentPlaybackPosition = index;
       }
+      this.beginPass();
       this.state.currentNoteGroupIndex = index;
-      this.state.pressedNotes.clear();
+      this.clearPressedNotes();
       this.state.correctNotesPressed.clear();
       // Skip empty groups after jumping
       this.skipEmptyGroups();
+      this.groupStartTime = null;
+      this.restartTimedClock();
+      this.notifyProgress();
+    }
+  }
+
+  /**
+   * Jump to a position in the playback sequence, e.g. to follow automatic playback
+   * through a repeat without snapping back to the first occurrence of the note group
+   */
+  jumpToPlaybackPosition(position: number): void {
+    const sequenceLength = this.repeatHandler 
+      ? this.repeatHandler.getSequenceLength() 
+      : this.state.score.length;
+    
+    if (position >= 0 && position < sequenceLength) {
+      this.currentPlaybackPosition = position;
+      this.beginPass();
+      this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
+      this.clearPressedNotes();
+      this.state.correctNotesPressed.clear();
+      this.skipEmptyGroups();
+      this.groupStartTime = null;
+      this.restartTimedClock();
       this.notifyProgress();
     }
   }
 
+  /**
+   * Loop a measure range: reaching the end of it wraps back to its start instead of completing.
+   * Pass null to clear the loop.
+   */
+  setLoop(range: LoopRange | null): void {
+    this.loopRange = range;
+    this.loopPositions = null;
+
+    if (!range || !this.repeatHandler) {
+      this.beginPass();
+      this.restartTimedClock();
+      return;
+    }
+
+    this.loopPositions = this.repeatHandler.getPositionRangeForMeasures(
+      range.startMeasure, range.endMeasure, this.currentPlaybackPosition
+    );
+
+    // Move into the loop if we're currently outside it
+    if (this.loopPositions &&
+        (this.currentPlaybackPosition < this.loopPositions.start || this.currentPlaybackPosition > this.loopPositions.end)) {
+      this.jumpToPlaybackPosition(this.loopPositions.start);
+    } else {
+      this.beginPass();
+      this.restartTimedClock();
+    }
+  }
+
+  getLoop(): LoopRange | null {
+    return this.loopRange;
+  }
+
+  /**
+   * Wrap back to the loop start if we've just stepped past the loop end
+   */
+  private wrapLoop(): boolean {
+    if (!this.loopPositions || this.currentPlaybackPosition !== this.loopPositions.end + 1) {
+      return false;
+    }
+
+    this.currentPlaybackPosition = this.loopPositions.start;
+    this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
+    console.log(`Loop: back to playback position ${this.currentPlaybackPosition}`);
+    this.endPass();
+    return true;
+  }
+
+  /**
+   * Start counting mistakes for a pass; it only counts as one if it starts at the loop or piece start
+   */
+  private beginPass(): void {
+    this.passMistakes = 0;
+    this.passFromStart = this.currentPlaybackPosition <= (this.loopPositions?.start ?? 0);
+  }
+
+  /**
+   * Report a pass through the loop or piece, then start the next one from the start
+   */
+  private endPass(): void {
+    if (this.passFromStart && this.onPassCompleteCallback) {
+      this.onPassCompleteCallback(this.passMistakes);
+    }
+    this.passMistakes = 0;
+    this.passFromStart = true;
+  }
+
   private getCurrentNoteGroupIndex(): number {
     if (this.repeatHandler) {
       return this.repeatHandler.getNoteGroupIndexForPosition(this.currentPlaybackPosition);
@@ -93,7 +427,14 @@ export class PracticeEngine {
       ? this.repeatHandler.getSequenceLength() 
       : this.state.score.length;
     
+    let wrapped = false;
     while (this.currentPlaybackPosition < sequenceLength) {
+      // Stay inside the loop, but give up if it has nothing for this hand
+      if (this.wrapLoop()) {
+        if (wrapped) break;
+        wrapped = true;
+      }
+
       const noteGroupIndex = this.getCurrentNoteGroupIndex();
       if (noteGroupIndex < 0 || noteGroupIndex >= this.state.score.length) {
         this.currentPlaybackPosition++;
@@ -115,20 +456,268 @@ export class PracticeEngine {
     this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
   }
 
-  handleNoteOn(midiNote: number): void {
+  /**
+   * A key press, from a device that plays both hands or only one. The velocity (1-127) is
+   * only needed for dynamics checking.
+   */
+  handleNoteOn(midiNote: number, hand: MidiInputHand = 'both', velocity?: number): void {
     if (!this.state.isPlaying) return;
 
     this.state.pressedNotes.add(midiNote);
-    this.checkProgress();
+    this.handPresses[hand].add(midiNote);
+    if (this.timingMode === 'timed') {
+      if (!this.gradeTimedNote(midiNote, hand, velocity)) {
+        this.recordUnexpectedNote(midiNote);
+      }
+    } else {
+      const currentGroup = this.state.score[this.state.currentNoteGroupIndex];
+      if (!currentGroup || !this.getExpectedNotes(currentGroup, hand).includes(midiNote)) {
+        this.recordUnexpectedNote(midiNote);
+      } else {
+        this.recordVelocity(this.state.currentNoteGroupIndex, midiNote, velocity);
+      }
+      this.checkProgress();
+    }
     this.notifyProgress();
   }
 
-  handleNoteOff(midiNote: number): void {
-    this.state.pressedNotes.delete(midiNote);
-    this.state.correctNotesPressed.delete(midiNote);
+  /**
+   * A key that isn't wanted right now: 'extra' if it belongs to this group or was just
+   * played (other hand, re-strike), otherwise 'wrong'
+   */
+  private recordUnexpectedNote(midiNote: number): void {
+    const noteGroupIndex = this.state.currentNoteGroupIndex;
+    const currentGroup = this.state.score[noteGroupIndex];
+    if (!currentGroup) return;
+
+    const previousGroup = this.state.score[this.getNoteGroupIndexAt(this.currentPlaybackPosition - 1)];
+    const belongsNearby = currentGroup.notes.some(note => note.pitch === midiNote) ||
+      (previousGroup?.notes.some(note => note.pitch === midiNote) ?? false);
+
+    this.recordMistake({
+      type: belongsNearby ? 'extra' : 'wrong',
+      noteGroupIndex,
+      position: this.currentPlaybackPosition,
+      expectedNotes: this.getExpectedNotes(currentGroup),
+      pitch: midiNote,
+    });
+  }
+
+  private recordMistake(mistake: PracticeMistake): void {
+    this.mistakes.push(mistake);
+    if (mistake.type !== 'pedal') this.passMistakes++;
+
+    this.updateMeasureStats(mistake.noteGroupIndex, stats => {
+      if (mistake.type === 'hesitation') {
+        stats.hesitationMs += mistake.hesitationMs || 0;
+      } else if (mistake.type !== 'pedal') {
+        stats.wrongNotes++;
+      }
+    });
+    console.log(`Mistake: ${mistake.type} at note group ${mistake.noteGroupIndex}`, mistake.pitch ?? mistake.hesitationMs);
+
+    if (this.onMistakeCallback) {
+      this.onMistakeCallback(mistake);
+    }
+  }
+
+  /**
+   * Wait mode: note how long the student took over a group compared with its notated rhythm
+   */
+  private checkHesitation(noteGroupIndex: number, expectedNotes: number[]): void {
+    if (this.groupStartTime === null) return;
+
+    const hesitationMs = performance.now() - this.groupStartTime - this.groupExpectedGapMs;
+    if (hesitationMs > this.HESITATION_THRESHOLD_MS) {
+      this.recordMistake({
+        type: 'hesitation',
+        noteGroupIndex,
+        position: this.currentPlaybackPosition,
+        expectedNotes,
+        hesitationMs: Math.round(hesitationMs),
+      });
+    }
+  }
+
+  /**
+   * Start timing the group we've just advanced to
+   */
+  private startGroupTimer(previousGroup: NoteGroup): void {
+    const currentGroup = this.state.score[this.state.currentNoteGroupIndex];
+    let gapMs = 0;
+    if (currentGroup && currentGroup.absoluteTime !== undefined && previousGroup.absoluteTime !== undefined) {
+      gapMs = this.tempoMap.getDurationMs(previousGroup.absoluteTime, currentGroup.absoluteTime) / this.tempoMultiplier;
+    }
+    this.groupStartTime = performance.now();
+    this.groupExpectedGapMs = gapMs;
+  }
+
+  /**
+   * Sustain pedal markings from the score, for pedal checking
+   */
+  setPedalMarkings(markings: PedalMarking[]): void {
+    this.pedalMarkings = markings;
+  }
+
+  setPedalGrading(enabled: boolean): void {
+    this.pedalGrading = enabled;
+  }
+
+  handlePedal(pedal: PedalType, down: boolean): void {
+    if (pedal === 'sustain') {
+      this.sustainDown = down;
+    }
+  }
+
+  /**
+   * Compare the sustain pedal with the score's markings as a group is played. Groups where a
+   * marking falls are skipped, since the pedal is moving there.
+   */
+  private checkPedal(noteGroupIndex: number, expectedNotes: number[]): void {
+    const group = this.state.score[noteGroupIndex];
+    if (!this.pedalGrading || this.pedalMarkings.length === 0 || group?.absoluteTime === undefined) return;
+
+    const epsilon = 1e-6;
+    const time = group.absoluteTime;
+    if (this.pedalMarkings.some(marking => Math.abs(marking.absoluteTime - time) < epsilon)) return;
+
+    const lastMarking = [...this.pedalMarkings].reverse().find(marking => marking.absoluteTime < time);
+    const expectedDown = lastMarking !== undefined && lastMarking.type !== 'up';
+    if (expectedDown !== this.sustainDown) {
+      this.recordMistake({
+        type: 'pedal',
+        noteGroupIndex,
+        position: this.currentPlaybackPosition,
+        expectedNotes,
+        pedalDown: expectedDown,
+      });
+    }
+  }
+
+  /**
+   * Dynamics markings from the score, for dynamics checking
+   */
+  setDynamicMarkings(markings: DynamicMarking[]): void {
+    this.dynamicMarkings = markings;
+  }
+
+  setDynamicsGrading(enabled: boolean): void {
+    this.dynamicsGrading = enabled;
+  }
+
+  /**
+   * How the current run's velocities compare with the score's dynamics: stretches under a level
+   * (e.g. p) played too loud or too soft on average, and hairpins that didn't get louder or softer
+   */
+  getDynamicsFeedback(): DynamicsFeedback[] {
+    if (!this.dynamicsGrading || this.dynamicMarkings.length === 0) return [];
+
+    const epsilon = 1e-6;
+    const appliesTo = (marking: DynamicMarking, hand: 'left' | 'right') => marking.hand === null || marking.hand === hand;
+    const average = (samples: VelocitySample[]) => samples.reduce((sum, sample) => sum + sample.velocity, 0) / samples.length;
+    const measureRange = (samples: VelocitySample[]) => ({
+      startMeasure: Math.min(...samples.map(sample => sample.measureIndex)),
+      endMeasure: Math.max(...samples.map(sample => sample.measureIndex)),
+    });
+    const feedback: DynamicsFeedback[] = [];
+
+    // Levels: each note is judged against the last level marked before it for its hand
+    const stretches = new Map<string, { marking: DynamicMarking; hand: 'left' | 'right'; samples: VelocitySample[] }>();
+    for (const sample of this.velocitySamples) {
+      let markingIndex = -1;
+      this.dynamicMarkings.forEach((marking, index) => {
+        if (marking.type === 'level' && marking.absoluteTime <= sample.time + epsilon && appliesTo(marking, sample.hand)) {
+          markingIndex = index;
+        }
+      });
+      if (markingIndex === -1) continue;
+
+      const key = `${sample.hand}-${markingIndex}`;
+      if (!stretches.has(key)) {
+        stretches.set(key, { marking: this.dynamicMarkings[markingIndex], hand: sample.hand, samples: [] });
+      }
+      stretches.get(key)!.samples.push(sample);
+    }
+    stretches.forEach(({ marking, hand, samples }) => {
+      if (!marking.level || samples.length < this.MIN_DYNAMICS_NOTES) return;
+      const averageVelocity = average(samples);
+      const target = DYNAMIC_VELOCITIES[marking.level];
+      if (Math.abs(averageVelocity - target) <= this.DYNAMICS_TOLERANCE) return;
+
+      feedback.push({
+        type: averageVelocity > target ? 'too-loud' : 'too-soft',
+        hand,
+        ...measureRange(samples),
+        level: marking.level,
+        averageVelocity: Math.round(averageVelocity),
+      });
+    });
+
+    // Hairpins: the later half of the notes under one should be louder (or softer) than the first
+    this.dynamicMarkings.forEach((marking, index) => {
+      if (marking.type !== 'crescendo' && marking.type !== 'diminuendo') return;
+
+      // A hairpin runs to its end or to the next level, which often replaces the end
+      const end = this.dynamicMarkings.slice(index + 1).find(other =>
+        (other.type === 'wedge-end' || other.type === 'level') &&
+        (other.hand === null || marking.hand === null || other.hand === marking.hand));
+      const endTime = end ? end.absoluteTime : Infinity;
+
+      (['right', 'left'] as const).filter(hand => appliesTo(marking, hand)).forEach(hand => {
+        const samples = this.velocitySamples.filter(sample => sample.hand === hand &&
+          sample.time >= marking.absoluteTime - epsilon && sample.time < endTime - epsilon);
+        if (samples.length < this.MIN_DYNAMICS_NOTES + 1) return;
+
+        const half = Math.floor(samples.length / 2);
+        const change = average(samples.slice(half)) - average(samples.slice(0, half));
+        if ((marking.type === 'crescendo' ? change : -change) >= this.MIN_HAIRPIN_CHANGE) return;
+
+        feedback.push({
+          type: marking.type === 'crescendo' ? 'no-crescendo' : 'no-diminuendo',
+          hand,
+          ...measureRange(samples),
+          averageVelocity: Math.round(average(samples)),
+        });
+      });
+    });
+
+    return feedback.sort((a, b) => a.startMeasure - b.startMeasure);
+  }
+
+  private recordVelocity(noteGroupIndex: number, pitch: number, velocity: number | undefined): void {
+    if (!this.dynamicsGrading || velocity === undefined) return;
+
+    const group = this.state.score[noteGroupIndex];
+    const note = group?.notes.find(n => n.pitch === pitch);
+    if (!note || group.absoluteTime === undefined) return;
+
+    this.velocitySamples.push({ hand: note.hand, time: group.absoluteTime, measureIndex: group.measureIndex, velocity });
+  }
+
+  handleNoteOff(midiNote: number, hand: MidiInputHand = 'both'): void {
+    this.handPresses[hand].delete(midiNote);
+    // Another keyboard may still hold the same key
+    if (!Object.values(this.handPresses).some(pressed => pressed.has(midiNote))) {
+      this.state.pressedNotes.delete(midiNote);
+      this.state.correctNotesPressed.delete(midiNote);
+    }
     this.notifyProgress();
   }
 
+  private clearPressedNotes(): void {
+    this.state.pressedNotes.clear();
+    Object.values(this.handPresses).forEach(pressed => pressed.clear());
+  }
+
+  /**
+   * Whether a score note is held on a device allowed to play it: one set to both hands, or
+   * one set to the note's hand
+   */
+  private isNoteHeld(noteGroup: NoteGroup, pitch: number): boolean {
+    if (this.handPresses.both.has(pitch)) return true;
+    return noteGroup.notes.some(note => note.pitch === pitch && this.handPresses[note.hand].has(pitch));
+  }
+
   private checkProgress(): void {
     if (this.state.currentNoteGroupIndex >= this.state.score.length || this.state.currentNoteGroupIndex < 0) {
       return; // Finished or invalid index
@@ -147,7 +736,9 @@ export class PracticeEngine {
       this.autoPlayOtherHand(currentGroup);
       
       this.currentPlaybackPosition++;
+      this.wrapLoop();
       this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
+      this.startGroupTimer(currentGroup);
       this.notifyProgress();
       // Recursively check next group with timing
       this.scheduleNextAutoPlay();
@@ -156,20 +747,27 @@ export class PracticeEngine {
 
     // Check if all expected notes are pressed
     const allCorrect = expectedNotes.every(note => 
-      this.state.pressedNotes.has(note)
+      this.isNoteHeld(currentGroup, note)
     );
 
     if (allCorrect && expectedNotes.length > 0) {
       // Mark these notes as correct
       expectedNotes.forEach(note => this.state.correctNotesPressed.add(note));
+      this.checkHesitation(this.state.currentNoteGroupIndex, expectedNotes);
+      this.checkPedal(this.state.currentNoteGroupIndex, expectedNotes);
+      this.updateMeasureStats(this.state.currentNoteGroupIndex, stats => {
+        stats.notesPlayed += expectedNotes.length;
+      });
       
       // Auto-play the other hand's notes
       this.autoPlayOtherHand(currentGroup);
       
-      // Advance to next note group
+      // Advance to next note group (wrapping inside a loop)
       this.currentPlaybackPosition++;
+      this.wrapLoop();
       this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
       this.state.correctNotesPressed.clear();
+      this.startGroupTimer(currentGroup);
       
       console.log(`Advanced to playback position ${this.currentPlaybackPosition}, note group ${this.state.currentNoteGroupIndex}`);
       
@@ -181,6 +779,7 @@ export class PracticeEngine {
         console.log('Score completed!');
         this.state.isPlaying = false;
         this.notifyProgress();
+        this.endPass();
         
         // Trigger completion callback
         if (this.onCompleteCallback) {
@@ -204,6 +803,345 @@ export class PracticeEngine {
     }
   }
 
+  /**
+   * Lay out the sequence from a position in score milliseconds (stopping at the loop end)
+   */
+  private buildTimedSteps(startPosition: number): void {
+    const sequenceLength = this.repeatHandler 
+      ? this.repeatHandler.getSequenceLength() 
+      : this.state.score.length;
+    const endPosition = this.loopPositions && startPosition <= this.loopPositions.end
+      ? this.loopPositions.end
+      : sequenceLength - 1;
+
+    this.timedSteps = [];
+    this.timedBeats = [];
+    let time = 0;
+
+    for (let position = startPosition; position <= endPosition; position++) {
+      const noteGroupIndex = this.getNoteGroupIndexAt(position);
+      const group = this.state.score[noteGroupIndex];
+      if (!group) continue;
+
+      this.timedSteps.push({
+        position,
+        noteGroupIndex,
+        time,
+        expected: this.getExpectedNotes(group).filter(pitch => !this.isTieContinuation(noteGroupIndex, pitch)),
+        graded: new Set(),
+      });
+
+      // Same spacing as playback: absolute time when sequential, longest note on jumps
+      const nextNoteGroupIndex = position + 1 < sequenceLength ? this.getNoteGroupIndexAt(position + 1) : -1;
+      const nextGroup = this.state.score[nextNoteGroupIndex];
+      const sequential = nextGroup !== undefined && group.absoluteTime !== undefined && nextGroup.absoluteTime !== undefined &&
+        nextNoteGroupIndex === noteGroupIndex + 1;
+      const advance = sequential
+        ? nextGroup.absoluteTime! - group.absoluteTime!
+        : Math.max(0, ...group.notes.map(note => note.duration));
+
+      // Tempo changes before the next group are followed; a jump keeps the group's tempo, like playback
+      const start = group.absoluteTime ?? 0;
+      const msPerWholeNote = 240000 / this.getGroupTempo(group);
+      const msUntil = (end: number) => sequential ? this.tempoMap.getDurationMs(start, end) : (end - start) * msPerWholeNote;
+      if (this.metronome && group.absoluteTime !== undefined) {
+        for (const beat of this.metronome.getBeats(start, start + Math.max(0, advance))) {
+          this.timedBeats.push({ time: time + msUntil(beat.time), accent: beat.accent });
+        }
+      }
+      time += msUntil(start + Math.max(0, advance));
+    }
+
+    this.timedEndTime = time;
+    this.timedStepIndex = 0;
+    this.missCheckIndex = 0;
+    this.beatIndex = 0;
+  }
+
+  private getNoteGroupIndexAt(position: number): number {
+    return this.repeatHandler
+      ? this.repeatHandler.getNoteGroupIndexForPosition(position)
+      : position;
+  }
+
+  /**
+   * A note continues a tie if the last earlier group with that pitch ties into it
+   */
+  private isTieContinuation(noteGroupIndex: number, pitch: number): boolean {
+    for (let i = noteGroupIndex - 1; i >= 0; i--) {
+      const previous = this.state.score[i].notes.find(note => note.pitch === pitch);
+      if (previous) return previous.isTied;
+    }
+    return false;
+  }
+
+  /**
+   * Re-arm timed mode from the current position. The clock starts on the first correct note.
+   */
+  private restartTimedClock(): void {
+    this.stopTimedClock();
+    if (this.timingMode !== 'timed' || !this.state.isPlaying) return;
+
+    this.timingStats = { 'early': 0, 'on-time': 0, 'late': 0, 'missed': 0 };
+    this.buildTimedSteps(this.currentPlaybackPosition);
+  }
+
+  private stopTimedClock(): void {
+    if (this.timedTimeoutId !== null) {
+      clearTimeout(this.timedTimeoutId);
+      this.timedTimeoutId = null;
+    }
+    this.clockStart = null;
+    this.countInPending = false;
+  }
+
+  private getScoreTime(now: number): number {
+    if (this.clockStart === null) return this.clockScoreTime;
+    return this.clockScoreTime + (now - this.clockStart) * this.tempoMultiplier;
+  }
+
+  /**
+   * Grade a key press against the play-along timeline. Returns false if it matched nothing.
+   */
+  private gradeTimedNote(midiNote: number, hand: MidiInputHand, velocity?: number): boolean {
+    const now = performance.now() - this.inputLatencyMs;
+    const isStepNote = (step: TimedStep) => step.expected.includes(midiNote) &&
+      (hand === 'both' || this.getExpectedNotes(this.state.score[step.noteGroupIndex], hand).includes(midiNote));
+
+    if (this.clockStart === null) {
+      const step = this.timedSteps[this.timedStepIndex];
+      if (!step) return false;
+
+      // With a count-in, any key starts it and the clock reaches the step when it ends
+      const group = this.state.score[step.noteGroupIndex];
+      const countIn = this.metronome?.getCountIn(group.absoluteTime ?? 0);
+      if (countIn && countIn.duration > 0) {
+        this.startCountIn(step, countIn.beats, countIn.duration);
+        return true;
+      }
+
+      // Start the clock on the first note of the current step
+      if (!isStepNote(step)) return false;
+      this.clockStart = now;
+      this.clockScoreTime = step.time;
+      // The note just played is the beat
+      while (this.beatIndex < this.timedBeats.length && this.timedBeats[this.beatIndex].time <= step.time) {
+        this.beatIndex++;
+      }
+      this.autoPlayOtherHand(group);
+      this.scheduleTimedTick();
+    }
+
+    const scoreTime = this.getScoreTime(now);
+
+    // Match the closest ungraded occurrence of this pitch inside the timing windows
+    let match: TimedStep | null = null;
+    let matchOffset = 0;
+    for (let i = this.missCheckIndex; i < this.timedSteps.length; i++) {
+      const step = this.timedSteps[i];
+      const offsetMs = (scoreTime - step.time) / this.tempoMultiplier;
+      if (offsetMs < -this.timingWindows.early) break; // Later steps are further away
+      if (offsetMs > this.timingWindows.late) continue;
+      if (!isStepNote(step) || step.graded.has(midiNote)) continue;
+
+      if (!match || Math.abs(offsetMs) < Math.abs(matchOffset)) {
+        match = step;
+        matchOffset = offsetMs;
+      }
+    }
+
+    // Not in the score around here
+    if (!match) return false;
+
+    let result: TimingResult = 'on-time';
+    if (Math.abs(matchOffset) > this.timingWindows.onTime) {
+      result = matchOffset < 0 ? 'early' : 'late';
+    }
+
+    this.recordGrade(match, midiNote, result, matchOffset);
+    this.recordVelocity(match.noteGroupIndex, midiNote, velocity);
+    if (match === this.timedSteps[this.timedStepIndex]) {
+      this.state.correctNotesPressed.add(midiNote);
+    }
+    return true;
+  }
+
+  /**
+   * Start the clock a count-in's length before a step and play the count-in clicks
+   */
+  private startCountIn(step: TimedStep, beats: MetronomeBeat[], duration: number): void {
+    const msPerWholeNote = 240000 / this.getGroupTempo(this.state.score[step.noteGroupIndex]);
+    this.clockStart = performance.now();
+    this.clockScoreTime = step.time - duration * msPerWholeNote;
+    this.countInPending = true;
+
+    for (const beat of beats) {
+      this.metronome!.playBeatIn(beat.time * msPerWholeNote / this.tempoMultiplier - this.outputLatencyMs, beat.accent, true);
+    }
+    this.scheduleTimedTick();
+  }
+
+  private recordGrade(step: TimedStep, pitch: number, result: TimingResult, offsetMs: number): void {
+    step.graded.add(pitch);
+    this.timingStats[result]++;
+
+    this.updateMeasureStats(step.noteGroupIndex, stats => {
+      stats.notesPlayed++;
+      if (result === 'missed') stats.wrongNotes++;
+    });
+    if (result === 'missed') this.passMistakes++;
+    console.log(`Timing: ${pitch} ${result} (${Math.round(offsetMs)}ms)`);
+
+    if (this.onTimingGradeCallback) {
+      this.onTimingGradeCallback({
+        pitch,
+        result,
+        offsetMs: Math.round(offsetMs),
+        noteGroupIndex: step.noteGroupIndex,
+        position: step.position,
+      });
+    }
+  }
+
+  private scheduleTimedTick(): void {
+    if (this.timedTimeoutId !== null) {
+      clearTimeout(this.timedTimeoutId);
+    }
+    if (this.clockStart === null) return;
+
+    // Wake for the next cursor move, missed-note deadline or the end of the timeline
+    const scoreTime = this.getScoreTime(performance.now());
+    const { lateScoreMs, lookaheadScoreMs } = this.getTimedMargins();
+    let nextEvent = this.timedEndTime;
+    const nextStep = this.timedSteps[this.timedStepIndex + 1];
+    if (nextStep) nextEvent = Math.min(nextEvent, nextStep.time - lookaheadScoreMs);
+    const nextDeadline = this.timedSteps[this.missCheckIndex];
+    if (nextDeadline) nextEvent = Math.min(nextEvent, nextDeadline.time + lateScoreMs);
+    const currentStep = this.timedSteps[this.timedStepIndex];
+    if (this.countInPending && currentStep) nextEvent = Math.min(nextEvent, currentStep.time - lookaheadScoreMs);
+    const nextBeat = this.timedBeats[this.beatIndex];
+    if (nextBeat) nextEvent = Math.min(nextEvent, nextBeat.time - lookaheadScoreMs - this.BEAT_SCHEDULE_AHEAD_MS * this.tempoMultiplier);
+
+    const delay = Math.max(0, (nextEvent - scoreTime) / this.tempoMultiplier);
+    this.timedTimeoutId = window.setTimeout(() => this.timedTick(), delay + 1);
+  }
+
+  /**
+   * How long after a step its notes can still arrive (late window plus input latency), and how
+   * far ahead a step is entered so its auto-played notes are heard on time, in score ms
+   */
+  private getTimedMargins(): { lateScoreMs: number; lookaheadScoreMs: number } {
+    return {
+      lateScoreMs: (this.timingWindows.late + this.inputLatencyMs) * this.tempoMultiplier,
+      lookaheadScoreMs: this.outputLatencyMs * this.tempoMultiplier,
+    };
+  }
+
+  private timedTick(): void {
+    this.timedTimeoutId = null;
+    if (this.clockStart === null || !this.state.isPlaying) return;
+
+    const now = performance.now();
+    const scoreTime = this.getScoreTime(now);
+    const { lateScoreMs, lookaheadScoreMs } = this.getTimedMargins();
+
+    // Anything not played by the end of its late window is missed
+    while (this.missCheckIndex < this.timedSteps.length &&
+           this.timedSteps[this.missCheckIndex].time + lateScoreMs < scoreTime) {
+      this.gradeMissed(this.timedSteps[this.missCheckIndex]);
+      this.missCheckIndex++;
+    }
+
+    // The first step's other hand comes in as the count-in ends
+    const currentStep = this.timedSteps[this.timedStepIndex];
+    if (this.countInPending && currentStep && currentStep.time - lookaheadScoreMs <= scoreTime) {
+      this.countInPending = false;
+      this.autoPlayOtherHand(this.state.score[currentStep.noteGroupIndex]);
+    }
+
+    // Move the cursor with the clock
+    let advanced = false;
+    while (this.timedStepIndex + 1 < this.timedSteps.length &&
+           this.timedSteps[this.timedStepIndex + 1].time - lookaheadScoreMs <= scoreTime) {
+      this.timedStepIndex++;
+      this.enterTimedStep(this.timedSteps[this.timedStepIndex]);
+      advanced = true;
+    }
+
+    if (scoreTime >= this.timedEndTime) {
+      const lastStep = this.timedSteps[this.timedSteps.length - 1];
+      const atLoopEnd = this.loopPositions && lastStep && lastStep.position === this.loopPositions.end;
+
+      if (atLoopEnd && this.loopPositions) {
+        // Close off this pass and carry on from the loop start without losing the beat
+        for (let i = this.missCheckIndex; i < this.timedSteps.length; i++) {
+          this.gradeMissed(this.timedSteps[i]);
+        }
+        this.endPass();
+        const overshoot = scoreTime - this.timedEndTime;
+        this.buildTimedSteps(this.loopPositions.start);
+        this.clockScoreTime = overshoot;
+        this.clockStart = now;
+        if (this.timedSteps[0]) {
+          this.enterTimedStep(this.timedSteps[0]);
+        }
+        advanced = true;
+      } else if (this.missCheckIndex >= this.timedSteps.length) {
+        this.completeTimed();
+        return;
+      }
+    }
+
+    if (advanced) {
+      this.notifyProgress();
+    }
+    this.queueBeats(this.getScoreTime(now));
+    this.scheduleTimedTick();
+  }
+
+  /**
+   * Queue the metronome clicks coming up, timed on the audio clock to be heard on the beat
+   */
+  private queueBeats(scoreTime: number): void {
+    const { lookaheadScoreMs } = this.getTimedMargins();
+    while (this.beatIndex < this.timedBeats.length &&
+           this.timedBeats[this.beatIndex].time - lookaheadScoreMs - this.BEAT_SCHEDULE_AHEAD_MS * this.tempoMultiplier <= scoreTime) {
+      const beat = this.timedBeats[this.beatIndex++];
+      this.metronome?.playBeatIn((beat.time - scoreTime) / this.tempoMultiplier - this.outputLatencyMs, beat.accent);
+    }
+  }
+
+  private enterTimedStep(step: TimedStep): void {
+    this.currentPlaybackPosition = step.position;
+    this.state.currentNoteGroupIndex = step.noteGroupIndex;
+    this.state.correctNotesPressed.clear();
+    this.autoPlayOtherHand(this.state.score[step.noteGroupIndex]);
+  }
+
+  private gradeMissed(step: TimedStep): void {
+    for (const pitch of step.expected) {
+      if (!step.graded.has(pitch)) {
+        this.recordGrade(step, pitch, 'missed', 0);
+      }
+    }
+  }
+
+  private completeTimed(): void {
+    this.stopTimedClock();
+    console.log('Score completed!', this.timingStats);
+    this.currentPlaybackPosition = this.timedSteps.length > 0
+      ? this.timedSteps[this.timedSteps.length - 1].position + 1
+      : this.currentPlaybackPosition;
+    this.state.currentNoteGroupIndex = this.getCurrentNoteGroupIndex();
+    this.state.isPlaying = false;
+    this.notifyProgress();
+    this.endPass();
+
+    if (this.onCompleteCallback) {
+      this.onCompleteCallback();
+    }
+  }
+
   private autoPlayOtherHand(noteGroup: NoteGroup): void {
     if (this.practiceMode === 'both') return;
     
@@ -217,10 +1155,17 @@ export class PracticeEngine {
     console.log(`Auto-playing other hand: ${otherHandNotes.length} notes`, otherHandNotes.map(n => n.pitch));
     
     if (otherHandNotes.length > 0 && this.onAutoPlayCallback) {
-      this.onAutoPlayCallback(otherHandNotes, noteGroup.tempo || 120);
+      this.onAutoPlayCallback(otherHandNotes, this.getGroupTempo(noteGroup));
     }
   }
 
+  /**
+   * Notated tempo (quarter notes per minute) where a group starts
+   */
+  private getGroupTempo(noteGroup: NoteGroup): number {
+    return noteGroup.absoluteTime !== undefined ? this.tempoMap.getTempoAt(noteGroup.absoluteTime) : noteGroup.tempo || 120;
+  }
+
   private scheduleNextAutoPlay(): void {
     // Check if next group should be auto-played (no notes for practicing hand)
     const sequenceLength = this.repeatHandler 
@@ -241,7 +1186,7 @@ export class PracticeEngine {
     
     // Check if next notes are already held (tied continuation)
     const allNextNotesHeld = expectedNotes.length > 0 && expectedNotes.every(note => 
-      this.state.pressedNotes.has(note)
+      this.isNoteHeld(nextGroup, note)
     );
     
     if (expectedNotes.length === 0 || allNextNotesHeld) {
@@ -255,10 +1200,7 @@ export class PracticeEngine {
         if (prevNoteGroupIndex >= 0 && prevNoteGroupIndex < this.state.score.length) {
           const currentGroup = this.state.score[prevNoteGroupIndex];
           if (currentGroup && nextGroup && currentGroup.absoluteTime !== undefined && nextGroup.absoluteTime !== undefined) {
-            const timeDiff = nextGroup.absoluteTime - currentGroup.absoluteTime;
-            const tempo = nextGroup.tempo || 120;
-            const msPerQuarterNote = 60000 / tempo;
-            const delay = timeDiff * msPerQuarterNote * 4; // Use same slowdown as playback
+            const delay = this.tempoMap.getDurationMs(currentGroup.absoluteTime, nextGroup.absoluteTime); // Same timing as playback
             
             setTimeout(() => {
               if (this.state.isPlaying) {
@@ -279,7 +1221,10 @@ export class PracticeEngine {
     }
   }
 
-  private getExpectedNotes(noteGroup: NoteGroup): number[] {
+  /**
+   * Pitches to play in the practice mode, optionally only those a one-hand device may play
+   */
+  private getExpectedNotes(noteGroup: NoteGroup, hand: MidiInputHand = 'both'): number[] {
     return noteGroup.notes
       .filter(note => {
         if (this.practiceMode === 'both') return true;
@@ -287,6 +1232,7 @@ export class PracticeEngine {
         if (this.practiceMode === 'right') return note.hand === 'right';
         return false;
       })
+      .filter(note => hand === 'both' || note.hand === hand)
       .map(note => note.pitch);
   }
 
@@ -335,6 +1281,22 @@ export class PracticeEngine {
     this.onCompleteCallback = callback;
   }
 
+  onTimingGrade(callback: (grade: TimingGrade) => void): void {
+    this.onTimingGradeCallback = callback;
+  }
+
+  onMistake(callback: (mistake: PracticeMistake) => void): void {
+    this.onMistakeCallback = callback;
+  }
+
+  /**
+   * Called with the number of mistakes (wrong, extra and missed notes and hesitations) each time
+   * the loop wraps or the piece is completed, for passes that began at the start
+   */
+  onPassComplete(callback: (mistakes: number) => void): void {
+    this.onPassCompleteCallback = callback;
+  }
+
   private notifyProgress(): void {
     if (this.onProgressCallback) {
       this.onProgressCallback(this.getState());
@@ -1,3 +1,4 @@
+import { RepetitionInstructionEnum } from 'opensheetmusicdisplay';
 import type { NoteGroup } from './shared/types';
 
 /**
@@ -9,10 +10,19 @@ export interface PlaybackStep {
   repetitionIteration: number; // Which iteration of a repeat (0 = first time, 1 = second time, etc.)
 }
 
+/**
+ * Repeat details read straight from the MusicXML barlines, which OSMD does not keep
+ * (it has no repeat counts and only reads the first number of an ending)
+ */
+export interface BarlineRepeatInfo {
+  repeatTimes: Map<number, number>;     // measureIndex -> "times" on the backward repeat
+  endingNumbers: Map<number, number[]>; // measureIndex -> passes of the volta starting there
+}
+
 interface RepeatSection {
   startMeasure: number;
-  endMeasure: number;
-  repeatCount: number;
+  endMeasure: number;   // Measure with the backward repeat
+  repeatCount: number;  // Total number of passes
   endings: VoltaEnding[];
 }
 
@@ -22,20 +32,44 @@ interface VoltaEnding {
   iterations: number[]; // Which iterations this ending is for (1-indexed)
 }
 
+/**
+ * A D.C. / D.S. jump and where the performance stops or branches after it
+ */
+interface JumpInstruction {
+  measure: number;                   // Measure at whose end the jump is taken
+  target: 'capo' | 'segno';          // Where to jump back to
+  until: 'end' | 'fine' | 'coda';    // "al Fine", "al Coda" or plain (play to the end)
+}
+
+/**
+ * Navigation markers (segno, coda, fine) and the jump that uses them
+ */
+interface NavigationInfo {
+  segnoMeasure: number | null;
+  codaMeasures: number[];            // Every measure carrying a coda sign
+  toCodaMeasure: number | null;
+  fineMeasure: number | null;
+  jump: JumpInstruction | null;
+}
+
 /**
  * Handles repeat logic for music playback
  * Parses OSMD repetition data and creates an expanded playback order
  */
 export class RepeatHandler {
-  private playbackSequence: PlaybackStep[] = [];
+  private playbackSequence: PlaybackStep[] = []; // The active sequence (one of the two below)
+  private fullSequence: PlaybackStep[] = [];     // Repeats played as written
+  private skipRepeatsSequence: PlaybackStep[] = []; // Repeats omitted, last-time-through endings only
+  private skipRepeats: boolean = false;
   private noteGroups: NoteGroup[] = [];
   
   /**
    * Build the playback sequence from OSMD repetition data
    * @param osmd - OpenSheetMusicDisplay instance
    * @param noteGroups - Linear array of note groups from score
+   * @param barlineRepeats - Repeat counts and ending numbers parsed from the MusicXML
    */
-  buildPlaybackSequence(osmd: any, noteGroups: NoteGroup[]): void {
+  buildPlaybackSequence(osmd: any, noteGroups: NoteGroup[], barlineRepeats?: BarlineRepeatInfo): void {
     this.noteGroups = noteGroups;
     this.playbackSequence = [];
     
@@ -43,204 +77,394 @@ export class RepeatHandler {
     const sourceMeasures = sheet.SourceMeasures;
     
     // Parse repetition instructions from source measures
-    const repeatInfo = this.parseRepetitionInstructions(sourceMeasures);
+    const repeatInfo = this.parseRepetitionInstructions(sourceMeasures, barlineRepeats);
+    const navigation = this.parseNavigationInstructions(sourceMeasures);
     
-    if (repeatInfo.length === 0) {
+    if (repeatInfo.length === 0 && !navigation.jump) {
       // No repeats - simple linear playback
       this.buildLinearSequence();
+      this.fullSequence = this.playbackSequence;
+      this.skipRepeatsSequence = this.playbackSequence;
       return;
     }
     
-    // Build sequence with repeats
-    this.buildSequenceFromRepeatInfo(repeatInfo);
+    const measureToNoteGroups = this.buildMeasureMap();
+    const maxMeasure = Math.max(...this.noteGroups.map(ng => ng.measureIndex));
     
-    // Log the measure sequence for debugging
-    const measureSequence: number[] = [];
-    let lastMeasure = -1;
-    for (const step of this.playbackSequence) {
-      if (step.measureIndex !== lastMeasure) {
-        measureSequence.push(step.measureIndex + 1); // +1 for 1-indexed display
-        lastMeasure = step.measureIndex;
+    // Build both the full sequence and the one without repeats, so the
+    // "skip repeats" setting can be switched without reloading the score
+    for (const takeRepeats of [true, false]) {
+      this.playbackSequence = [];
+      
+      if (!navigation.jump) {
+        // Build sequence with repeats
+        this.buildSequenceFromRepeatInfo(repeatInfo, measureToNoteGroups, 0, maxMeasure, takeRepeats, 0);
+      } else {
+        this.buildSequenceWithJump(repeatInfo, navigation, measureToNoteGroups, maxMeasure, takeRepeats);
+      }
+      
+      if (takeRepeats) {
+        this.fullSequence = this.playbackSequence;
+      } else {
+        this.skipRepeatsSequence = this.playbackSequence;
       }
+      
+      // Log the measure sequence for debugging
+      const measureSequence: number[] = [];
+      let lastMeasure = -1;
+      for (const step of this.playbackSequence) {
+        if (step.measureIndex !== lastMeasure) {
+          measureSequence.push(step.measureIndex + 1); // +1 for 1-indexed display
+          lastMeasure = step.measureIndex;
+        }
+      }
+      console.log(`Measure playback order${takeRepeats ? '' : ' (skip repeats)'}:`, measureSequence.join(' -> '));
     }
-    console.log('Measure playback order:', measureSequence.join(' -> '));
+    
+    this.playbackSequence = this.skipRepeats ? this.skipRepeatsSequence : this.fullSequence;
   }
   
   /**
-   * Parse repetition instructions from source measures
+   * Choose between playing repeats as written and omitting them (exam style).
+   * D.C./D.S. jumps are still followed when repeats are skipped.
    */
-  private parseRepetitionInstructions(sourceMeasures: any[]): RepeatSection[] {
+  setSkipRepeats(skip: boolean): void {
+    this.skipRepeats = skip;
+    this.playbackSequence = skip ? this.skipRepeatsSequence : this.fullSequence;
+  }
+  
+  getSkipRepeats(): boolean {
+    return this.skipRepeats;
+  }
+  
+  /**
+   * Parse segno, coda, fine and D.C./D.S. instructions from source measures.
+   * OSMD stores markers that apply at the start of a measure (segno, coda) in
+   * FirstRepetitionInstructions and those that apply at its end in LastRepetitionInstructions.
+   */
+  private parseNavigationInstructions(sourceMeasures: any[]): NavigationInfo {
+    const navigation: NavigationInfo = {
+      segnoMeasure: null,
+      codaMeasures: [],
+      toCodaMeasure: null,
+      fineMeasure: null,
+      jump: null
+    };
+    
+    for (let i = 0; i < sourceMeasures.length; i++) {
+      const measure = sourceMeasures[i];
+      const instructions = [
+        ...(measure.FirstRepetitionInstructions || []),
+        ...(measure.LastRepetitionInstructions || [])
+      ];
+      
+      for (const instruction of instructions) {
+        switch (instruction.type) {
+          case RepetitionInstructionEnum.Segno:
+            if (navigation.segnoMeasure === null) navigation.segnoMeasure = i;
+            break;
+          case RepetitionInstructionEnum.Coda:
+            if (!navigation.codaMeasures.includes(i)) navigation.codaMeasures.push(i);
+            break;
+          case RepetitionInstructionEnum.ToCoda:
+            if (navigation.toCodaMeasure === null) navigation.toCodaMeasure = i;
+            break;
+          case RepetitionInstructionEnum.Fine:
+            if (navigation.fineMeasure === null) navigation.fineMeasure = i;
+            break;
+          case RepetitionInstructionEnum.DaCapo:
+            navigation.jump ??= { measure: i, target: 'capo', until: 'end' };
+            break;
+          case RepetitionInstructionEnum.DaCapoAlFine:
+            navigation.jump ??= { measure: i, target: 'capo', until: 'fine' };
+            break;
+          case RepetitionInstructionEnum.DaCapoAlCoda:
+            navigation.jump ??= { measure: i, target: 'capo', until: 'coda' };
+            break;
+          case RepetitionInstructionEnum.DalSegno:
+            navigation.jump ??= { measure: i, target: 'segno', until: 'end' };
+            break;
+          case RepetitionInstructionEnum.DalSegnoAlFine:
+            navigation.jump ??= { measure: i, target: 'segno', until: 'fine' };
+            break;
+          case RepetitionInstructionEnum.DalSegnoAlCoda:
+            navigation.jump ??= { measure: i, target: 'segno', until: 'coda' };
+            break;
+        }
+      }
+    }
+    
+    const jump = navigation.jump;
+    if (jump) {
+      // A plain D.C./D.S. still stops at a Fine if the score has one
+      if (jump.until === 'end' && navigation.fineMeasure !== null) {
+        jump.until = 'fine';
+      }
+      // A plain D.C./D.S. with a "To Coda" marker is played al Coda
+      if (jump.until === 'end' && navigation.toCodaMeasure !== null && navigation.codaMeasures.length > 0) {
+        jump.until = 'coda';
+      }
+      console.log(`Jump at measure ${jump.measure + 1}: ${jump.target === 'capo' ? 'D.C.' : 'D.S.'} al ${jump.until}`);
+    }
+    
+    return navigation;
+  }
+  
+  /**
+   * Parse repetition instructions from source measures.
+   * Forward repeats are kept on a stack so nested sections pair with the right backward repeat.
+   */
+  private parseRepetitionInstructions(sourceMeasures: any[], barlineRepeats?: BarlineRepeatInfo): RepeatSection[] {
     const sections: RepeatSection[] = [];
+    const endings = this.parseVoltaEndings(sourceMeasures, barlineRepeats);
+    const openStarts: number[] = [];
+    let lastClosedEnd = -1; // Last measure of the most recent outermost section (including its endings)
     
     for (let i = 0; i < sourceMeasures.length; i++) {
       const measure = sourceMeasures[i];
       
       // Check for repeat start (forward repeat barline)
       if (measure.beginsWithLineRepetition && measure.beginsWithLineRepetition()) {
-        // Find the matching end
-        let endMeasure = -1;
-        let endings: VoltaEnding[] = [];
-        
-        for (let j = i + 1; j < sourceMeasures.length; j++) {
-          // Check for volta brackets
-          if (sourceMeasures[j].beginsRepetitionEnding && sourceMeasures[j].beginsRepetitionEnding()) {
-            // Find which volta number(s) this is
-            const firstInstructions = sourceMeasures[j].FirstRepetitionInstructions;
-            
-            if (firstInstructions && firstInstructions.length > 0) {
-              const endingIndices = firstInstructions[0].endingIndices || [];
-              
-              // Find where this ending ends (look for backward repeat or next ending)
-              let endingEnd = j;
-              for (let k = j + 1; k < sourceMeasures.length; k++) {
-                // Check if this measure has a backward repeat - that's where the ending ends
-                if (sourceMeasures[k].endsWithLineRepetition && sourceMeasures[k].endsWithLineRepetition()) {
-                  endingEnd = k;
-                  break;
-                }
-                // Check if next measure starts a new ending
-                if (sourceMeasures[k].beginsRepetitionEnding && sourceMeasures[k].beginsRepetitionEnding()) {
-                  endingEnd = k - 1;
-                  break;
-                }
-              }
-              
-              endings.push({
-                startMeasure: j,
-                endMeasure: endingEnd,
-                iterations: endingIndices
-              });
-            }
-          }
-          
-          if (sourceMeasures[j].endsWithLineRepetition && sourceMeasures[j].endsWithLineRepetition()) {
-            endMeasure = j;
-            
-            // Check if this measure is also a volta ending (volta 2)
-            if (sourceMeasures[j].beginsRepetitionEnding && sourceMeasures[j].beginsRepetitionEnding()) {
-              const firstInstructions = sourceMeasures[j].FirstRepetitionInstructions;
-              if (firstInstructions && firstInstructions.length > 0) {
-                const endingIndices = firstInstructions[0].endingIndices || [];
-                
-                endings.push({
-                  startMeasure: j,
-                  endMeasure: j,
-                  iterations: endingIndices
-                });
-              }
-            }
-            
-            break;
-          }
-        }
-        
-        if (endMeasure === -1) {
-          // No explicit end, repeat to end of piece
-          endMeasure = sourceMeasures.length - 1;
+        openStarts.push(i);
+      }
+      
+      if (!(measure.endsWithLineRepetition && measure.endsWithLineRepetition())) {
+        continue;
+      }
+      
+      // Backward repeat without explicit start - repeat from beginning or after the last section
+      const startMeasure = openStarts.length > 0 ? openStarts.pop()! : lastClosedEnd + 1;
+      
+      // Endings inside the section (not already taken by a nested one),
+      // plus the chain of endings that directly follows it
+      const claimedEndings = new Set(sections.flatMap(r => r.endings));
+      const sectionEndings = endings.filter(e =>
+        !claimedEndings.has(e) && e.startMeasure > startMeasure && e.startMeasure <= i
+      );
+      let nextEnding = endings.find(e => e.startMeasure === i + 1);
+      while (sectionEndings.length > 0 && nextEnding) {
+        sectionEndings.push(nextEnding);
+        const after = nextEnding.endMeasure + 1;
+        nextEnding = endings.find(e => e.startMeasure === after);
+      }
+      
+      // An explicit "times" wins, otherwise the highest volta number tells us how many passes there are
+      const highestEnding = Math.max(0, ...sectionEndings.flatMap(e => e.iterations));
+      const repeatCount = barlineRepeats?.repeatTimes.get(i) ?? Math.max(2, highestEnding);
+      
+      sections.push({
+        startMeasure,
+        endMeasure: i,
+        repeatCount,
+        endings: sectionEndings
+      });
+      
+      if (openStarts.length === 0) {
+        lastClosedEnd = Math.max(i, ...sectionEndings.map(e => e.endMeasure));
+      }
+    }
+    
+    return sections;
+  }
+  
+  /**
+   * Find every volta bracket and the passes it is played on
+   */
+  private parseVoltaEndings(sourceMeasures: any[], barlineRepeats?: BarlineRepeatInfo): VoltaEnding[] {
+    const endings: VoltaEnding[] = [];
+    
+    for (let j = 0; j < sourceMeasures.length; j++) {
+      if (!(sourceMeasures[j].beginsRepetitionEnding && sourceMeasures[j].beginsRepetitionEnding())) {
+        continue;
+      }
+      
+      // Prefer the numbers parsed from the MusicXML, fall back to OSMD's ending indices
+      let iterations = barlineRepeats?.endingNumbers.get(j) ?? [];
+      if (iterations.length === 0) {
+        const firstInstructions = sourceMeasures[j].FirstRepetitionInstructions || [];
+        const endingInstruction = firstInstructions.find((r: any) => r.type === RepetitionInstructionEnum.Ending);
+        iterations = endingInstruction?.endingIndices || [];
+      }
+      
+      // Find where this ending ends: its closing bracket, a backward repeat, or the next ending
+      let endingEnd = j;
+      for (let k = j; k < sourceMeasures.length; k++) {
+        const measure = sourceMeasures[k];
+        if (k > j && measure.beginsRepetitionEnding && measure.beginsRepetitionEnding()) {
+          endingEnd = k - 1;
+          break;
         }
-        
-        sections.push({
-          startMeasure: i,
-          endMeasure: endMeasure,
-          repeatCount: 2,
-          endings: endings
-        });
-      } else if (measure.endsWithLineRepetition && measure.endsWithLineRepetition()) {
-        // Backward repeat without explicit start - repeat from beginning or last section
-        const lastSection = sections[sections.length - 1];
-        if (!lastSection || lastSection.endMeasure < i) {
-          const startMeasure = lastSection ? lastSection.endMeasure + 1 : 0;
-          sections.push({
-            startMeasure: startMeasure,
-            endMeasure: i,
-            repeatCount: 2,
-            endings: []
-          });
+        endingEnd = k;
+        if ((measure.endsRepetitionEnding && measure.endsRepetitionEnding()) ||
+            (measure.endsWithLineRepetition && measure.endsWithLineRepetition())) {
+          break;
         }
       }
+      
+      endings.push({
+        startMeasure: j,
+        endMeasure: endingEnd,
+        iterations: iterations
+      });
     }
     
-    return sections;
+    return endings;
+  }
+  
+  /**
+   * Build the playback sequence for a score with a D.C. or D.S. jump.
+   * Repeats are played as written up to the jump (unless takeRepeats is off); after it
+   * they are not taken (only the last-time-through ending is played), per the usual convention.
+   */
+  private buildSequenceWithJump(
+    repeatInfo: RepeatSection[],
+    navigation: NavigationInfo,
+    measureToNoteGroups: Map<number, number[]>,
+    maxMeasure: number,
+    takeRepeats: boolean
+  ): void {
+    const jump = navigation.jump!;
+    
+    // Everything up to and including the measure carrying the jump
+    this.buildSequenceFromRepeatInfo(repeatInfo, measureToNoteGroups, 0, jump.measure, takeRepeats, 0);
+    
+    // Jump back to the start or to the segno
+    const resumeMeasure = jump.target === 'segno' && navigation.segnoMeasure !== null
+      ? navigation.segnoMeasure
+      : 0;
+    
+    // Find where the second pass stops
+    let stopMeasure = maxMeasure;
+    let codaMeasure: number | null = null;
+    if (jump.until === 'fine' && navigation.fineMeasure !== null && navigation.fineMeasure >= resumeMeasure) {
+      stopMeasure = navigation.fineMeasure;
+    } else if (jump.until === 'coda') {
+      // The coda section is marked by the last coda sign after the jump. Without an
+      // explicit "To Coda", the first coda sign before the jump is the departure point.
+      const codaSection = navigation.codaMeasures.filter(m => m > jump.measure).pop() ?? null;
+      const toCodaMeasure = navigation.toCodaMeasure
+        ?? navigation.codaMeasures.find(m => m >= resumeMeasure && m <= jump.measure)
+        ?? null;
+      if (codaSection !== null && toCodaMeasure !== null && toCodaMeasure >= resumeMeasure) {
+        stopMeasure = toCodaMeasure;
+        codaMeasure = codaSection;
+      }
+    }
+    
+    this.buildSequenceFromRepeatInfo(repeatInfo, measureToNoteGroups, resumeMeasure, stopMeasure, false, 1);
+    
+    // Skip to the coda and play it to the end
+    if (codaMeasure !== null) {
+      this.buildSequenceFromRepeatInfo(repeatInfo, measureToNoteGroups, codaMeasure, maxMeasure, takeRepeats, 0);
+    }
   }
   
   /**
    * Build playback sequence from parsed repeat information
+   * @param startMeasure - First measure to play
+   * @param endMeasure - Last measure to play (inclusive)
+   * @param takeRepeats - Whether to play repeat sections as written, or once through with the last ending
+   * @param iterationOffset - Added to each step's repetitionIteration (e.g. 1 for the pass after a D.C.)
    */
-  private buildSequenceFromRepeatInfo(repeatInfo: RepeatSection[]): void {
-    const measureToNoteGroups = this.buildMeasureMap();
-    const maxMeasure = Math.max(...this.noteGroups.map(ng => ng.measureIndex));
+  private buildSequenceFromRepeatInfo(
+    allRepeatInfo: RepeatSection[],
+    measureToNoteGroups: Map<number, number[]>,
+    startMeasure: number,
+    endMeasure: number,
+    takeRepeats: boolean,
+    iterationOffset: number
+  ): void {
+    // Only sections that start within the range are honoured
+    const repeatInfo = allRepeatInfo.filter(r => r.startMeasure >= startMeasure && r.startMeasure <= endMeasure);
     
-    let currentMeasure = 0;
+    // Sections entered part-way through (e.g. a segno inside a repeat) are played
+    // straight through, so only their last ending is heard
+    const skippedEndings = allRepeatInfo
+      .filter(r => r.startMeasure < startMeasure && r.endings.length > 1)
+      .flatMap(r => r.endings.slice(0, -1));
     
-    while (currentMeasure <= maxMeasure) {
-      // Check if we're at the start of a repeat section
-      const repeatSection = repeatInfo.find(r => r.startMeasure === currentMeasure);
+    let currentMeasure = startMeasure;
+    
+    while (currentMeasure <= endMeasure) {
+      // Check if we're at the start of a repeat section (the outermost one if several start here)
+      const repeatSection = repeatInfo
+        .filter(r => r.startMeasure === currentMeasure)
+        .sort((a, b) => this.getSectionLastMeasure(b) - this.getSectionLastMeasure(a))[0];
       
       if (repeatSection) {
-        // Find the measure before any endings start
-        let commonEndMeasure = repeatSection.endMeasure;
-        if (repeatSection.endings.length > 0) {
-          // Common section ends just before the first ending
-          commonEndMeasure = Math.min(...repeatSection.endings.map(e => e.startMeasure)) - 1;
-        }
-        
-        // Play the repeat section multiple times
-        for (let iteration = 1; iteration <= repeatSection.repeatCount; iteration++) {
-          // Play common section (before endings)
-          for (let m = repeatSection.startMeasure; m <= commonEndMeasure; m++) {
-            this.addMeasureToSequence(m, measureToNoteGroups, iteration - 1);
-          }
-          
-          // Play the appropriate ending for this iteration
-          if (repeatSection.endings.length > 0) {
-            const ending = repeatSection.endings.find(e => 
-              e.iterations.includes(iteration)
-            );
-            
-            if (ending) {
-              for (let m = ending.startMeasure; m <= ending.endMeasure; m++) {
-                this.addMeasureToSequence(m, measureToNoteGroups, iteration - 1);
-              }
-            }
-          } else {
-            // No endings, play up to the end measure (the one with backward repeat)
-            // But don't play it twice - it's already in the common section
-            // Only play if commonEndMeasure < endMeasure
-            for (let m = commonEndMeasure + 1; m <= repeatSection.endMeasure; m++) {
-              this.addMeasureToSequence(m, measureToNoteGroups, iteration - 1);
-            }
-          }
-        }
+        this.expandRepeatSection(repeatSection, repeatInfo, measureToNoteGroups, endMeasure, takeRepeats, iterationOffset);
         
-        // Move past this repeat section
-        if (repeatSection.endings.length > 0) {
-          // Jump to after the last ending
-          currentMeasure = Math.max(...repeatSection.endings.map(e => e.endMeasure)) + 1;
-        } else {
-          currentMeasure = repeatSection.endMeasure + 1;
-        }
-      } else {
-        // Check if this measure is inside a repeat we've already processed
-        const insideRepeat = repeatInfo.some(r => {
-          if (currentMeasure >= r.startMeasure && currentMeasure <= r.endMeasure) {
-            return true;
-          }
-          // Also check if inside any ending
-          return r.endings.some(e => 
-            currentMeasure >= e.startMeasure && currentMeasure <= e.endMeasure
-          );
-        });
-        
-        if (!insideRepeat) {
-          // Normal measure, not part of any repeat
-          this.addMeasureToSequence(currentMeasure, measureToNoteGroups, 0);
-        }
-        
-        currentMeasure++;
+        // Move past this repeat section and all of its endings
+        currentMeasure = this.getSectionLastMeasure(repeatSection) + 1;
+        continue;
+      }
+      
+      const skippedEnding = skippedEndings.find(e => e.startMeasure === currentMeasure);
+      if (skippedEnding) {
+        currentMeasure = skippedEnding.endMeasure + 1;
+        continue;
       }
+      
+      // Normal measure, not part of any repeat
+      this.addMeasureToSequence(currentMeasure, measureToNoteGroups, iterationOffset);
+      currentMeasure++;
     }
   }
   
+  /**
+   * Play a repeat section for each of its passes, expanding any sections nested inside it
+   */
+  private expandRepeatSection(
+    repeatSection: RepeatSection,
+    repeatInfo: RepeatSection[],
+    measureToNoteGroups: Map<number, number[]>,
+    endMeasure: number,
+    takeRepeats: boolean,
+    iterationOffset: number
+  ): void {
+    // Common section ends just before the first ending
+    const commonEndMeasure = repeatSection.endings.length > 0
+      ? Math.min(...repeatSection.endings.map(e => e.startMeasure)) - 1
+      : repeatSection.endMeasure;
+    
+    // Sections nested inside this one are expanded on every pass
+    const innerSections = repeatInfo.filter(r => r !== repeatSection &&
+      r.startMeasure >= repeatSection.startMeasure &&
+      this.getSectionLastMeasure(r) <= this.getSectionLastMeasure(repeatSection));
+    
+    // Play the repeat section multiple times, or only the last time through
+    const firstIteration = takeRepeats ? 1 : repeatSection.repeatCount;
+    for (let iteration = firstIteration; iteration <= repeatSection.repeatCount; iteration++) {
+      const stepIteration = iteration - 1 + iterationOffset;
+      
+      // Play common section (before endings)
+      this.buildSequenceFromRepeatInfo(
+        innerSections, measureToNoteGroups, repeatSection.startMeasure,
+        Math.min(commonEndMeasure, endMeasure), takeRepeats, stepIteration
+      );
+      
+      // Play the appropriate ending for this iteration (the last ending doubles as the final one)
+      const ending = repeatSection.endings.find(e => e.iterations.includes(iteration))
+        ?? (iteration === repeatSection.repeatCount
+          ? repeatSection.endings[repeatSection.endings.length - 1]
+          : undefined);
+      
+      if (ending) {
+        this.buildSequenceFromRepeatInfo(
+          innerSections, measureToNoteGroups, ending.startMeasure,
+          Math.min(ending.endMeasure, endMeasure), takeRepeats, stepIteration
+        );
+      }
+    }
+  }
+  
+  /**
+   * Last measure covered by a repeat section, including endings after the backward repeat
+   */
+  private getSectionLastMeasure(section: RepeatSection): number {
+    return Math.max(section.endMeasure, ...section.endings.map(e => e.endMeasure));
+  }
+  
   /**
    * Build a simple linear playback sequence (no repeats)
    */
@@ -491,9 +715,41 @@ export class RepeatHandler {
   
   /**
    * Find the playback position for a given note group index
-   * Returns the first occurrence in the playback sequence
+   * Returns the first occurrence in the playback sequence. Note groups that are not
+   * played (e.g. a 1st ending when repeats are skipped) map to the next group that is.
    */
   getPositionForNoteGroupIndex(noteGroupIndex: number): number {
-    return this.playbackSequence.findIndex(step => step.noteGroupIndex === noteGroupIndex);
+    const position = this.playbackSequence.findIndex(step => step.noteGroupIndex === noteGroupIndex);
+    if (position >= 0) {
+      return position;
+    }
+    return this.playbackSequence.findIndex(step => step.noteGroupIndex > noteGroupIndex);
+  }
+
+  /**
+   * Find a stretch of the playback sequence that stays inside a measure range (inclusive).
+   * A range can be passed through more than once (e.g. inside a repeat), so prefer the
+   * stretch containing nearPosition, then the next one after it, then the first.
+   */
+  getPositionRangeForMeasures(startMeasure: number, endMeasure: number, nearPosition: number = 0): { start: number; end: number } | null {
+    const runs: { start: number; end: number }[] = [];
+    let runStart = -1;
+
+    for (let i = 0; i <= this.playbackSequence.length; i++) {
+      const step = this.playbackSequence[i];
+      const inRange = step !== undefined && step.measureIndex >= startMeasure && step.measureIndex <= endMeasure;
+      if (inRange && runStart === -1) {
+        runStart = i;
+      } else if (!inRange && runStart !== -1) {
+        runs.push({ start: runStart, end: i - 1 });
+        runStart = -1;
+      }
+    }
+
+    if (runs.length === 0) return null;
+
+    return runs.find(run => nearPosition >= run.start && nearPosition <= run.end)
+      || runs.find(run => run.start > nearPosition)
+      || runs[0];
   }
 }
@@ -1,14 +1,43 @@
 import { OpenSheetMusicDisplay } from 'opensheetmusicdisplay';
-import type { Note, NoteGroup } from './shared/types';
+import type { Note, NoteGroup, LoopRange, MidiHandSplit, PedalMarking, Fermata, SwingMarking, DynamicMarking, DynamicLevel, MeasureTiming, TempoMarking, TempoRamp, TempoRampType } from './shared/types';
 import JSZip from 'jszip';
 import type { SoundHandler } from './sound-handler';
 import { RepeatHandler } from './repeat-handler';
+import type { BarlineRepeatInfo } from './repeat-handler';
+import { MidiFileImporter } from './midi-file-importer';
+import { TempoMap } from './tempo-map';
+
+const DYNAMIC_LEVELS: DynamicLevel[] = ['ppp', 'pp', 'p', 'mp', 'mf', 'f', 'ff', 'fff'];
+
+// Tempo words and the tempo (quarter notes per minute) they're taken as
+const TEMPO_WORDS: [string, number][] = [
+  ['grave', 40], ['largo', 50], ['lento', 60], ['adagio', 70], ['andante', 90], ['moderato', 110],
+  ['allegretto', 115], ['allegro', 140], ['vivace', 160], ['presto', 180], ['prestissimo', 200],
+];
+
+// Note type -> length in quarter notes, for metronome marks
+const BEAT_UNIT_QUARTERS: Record<string, number> = {
+  breve: 8, whole: 4, half: 2, quarter: 1, eighth: 0.5, '16th': 0.25, '32nd': 0.125,
+};
+
+/**
+ * A tempo direction from the MusicXML, before it is resolved into the tempo map
+ */
+interface TempoDirection {
+  absoluteTime: number;
+  bpm?: number; // Quarter notes per minute
+  modulation?: number; // Metric modulation (e.g. quarter = dotted quarter): the tempo is multiplied by this
+  ramp?: TempoRampType;
+  dashes?: { type: 'start' | 'stop'; number: string }; // Dashes extending a rit./accel.
+  aTempo?: boolean;
+  tempoPrimo?: boolean;
+}
 
 export class ScoreRenderer {
   private osmd: OpenSheetMusicDisplay | null = null;
   private noteGroups: NoteGroup[] = [];
   private tempo: number = 120; // Default fallback
-  private tempoChanges: Map<number, number> = new Map(); // measureIndex -> tempo
+  private tempoMap: TempoMap = new TempoMap();
   private noteGroupToCursorPosition: Map<number, number> = new Map();
   private sourceNoteToGroupIndex: Map<any, number> = new Map();
   private useFlats: boolean = false;
@@ -19,18 +48,48 @@ export class ScoreRenderer {
   private soundHandler: SoundHandler | null = null;
   private noteDynamics: Map<string, number> = new Map(); // key: measure-staff-voice-timestamp-pitch
   private repeatHandler: RepeatHandler = new RepeatHandler();
+  private barlineRepeats: BarlineRepeatInfo = { repeatTimes: new Map(), endingNumbers: new Map() };
   private cursorColor: string = '#4a9eff'; // Store cursor color
+  private loopRange: LoopRange | null = null;
+  private noteErrors: Map<number, Set<number>> = new Map(); // noteGroupIndex -> pitches marked red
+  private heatmap: Map<number, number> | null = null; // measureIndex -> error rate (0-1)
+  private loopDragHandlersAttached: boolean = false;
+  private onLoopSelectCallback: ((startMeasure: number, endMeasure: number) => void) | null = null;
+  private midiFileImporter: MidiFileImporter = new MidiFileImporter();
+  private musicXML: string = ''; // MusicXML of the loaded score (generated for MIDI files)
+  private pedalMarkings: PedalMarking[] = [];
+  private fermatas: Fermata[] = [];
+  private swingMarkings: SwingMarking[] = [];
+  private dynamicMarkings: DynamicMarking[] = [];
+  private measureTimings: MeasureTiming[] = [];
 
   setSoundHandler(soundHandler: SoundHandler): void {
     this.soundHandler = soundHandler;
   }
 
+  /**
+   * How MIDI file notes are divided between the hands (applies to the next MIDI file loaded)
+   */
+  setMidiHandSplit(handSplit: MidiHandSplit): void {
+    this.midiFileImporter.setHandSplit(handSplit);
+  }
+
+  /**
+   * The MusicXML behind the loaded score, so MIDI imports can be saved and restored as MusicXML
+   */
+  getMusicXML(): string {
+    return this.musicXML;
+  }
+
   async loadScore(file: File): Promise<void> {
     const container = document.getElementById('score-display');
     if (!container) throw new Error('Score container not found');
 
     // Clear previous score
     container.innerHTML = '';
+    this.loopRange = null;
+    this.noteErrors.clear();
+    this.heatmap = null;
 
     // Create new OSMD instance
     this.osmd = new OpenSheetMusicDisplay(container, {
@@ -51,10 +110,15 @@ export class ScoreRenderer {
       drawPartNames: true,
     });
 
-    // Load the file - handle both .xml and .mxl
+    // Load the file - handle .xml, .mxl and MIDI
     let xmlContent: string;
+    const fileName = file.name.toLowerCase();
     
-    if (file.name.toLowerCase().endsWith('.mxl')) {
+    if (fileName.endsWith('.mid') || fileName.endsWith('.midi')) {
+      // Standard MIDI File - generate simple notation
+      const arrayBuffer = await file.arrayBuffer();
+      xmlContent = this.midiFileImporter.convert(arrayBuffer, file.name.replace(/\.midi?$/i, ''));
+    } else if (fileName.endsWith('.mxl')) {
       // Compressed MusicXML - unzip and extract
       const arrayBuffer = await file.arrayBuffer();
       const zip = await JSZip.loadAsync(arrayBuffer);
@@ -75,14 +139,19 @@ export class ScoreRenderer {
       xmlContent = await file.text();
     }
     
+    this.musicXML = xmlContent;
+    
     // Parse MusicXML to extract dynamics before OSMD processes it
     this.extractDynamicsFromMusicXML(xmlContent);
     
-    // Extract tempo from MusicXML
-    this.extractTempoFromMusicXML(xmlContent);
+    // Extract repeat counts and volta numbers from MusicXML
+    this.extractRepeatsFromMusicXML(xmlContent);
     
     await this.osmd.load(xmlContent);
     
+    // Pedal, dynamics and tempo markings need OSMD's measure lengths to place them in time
+    this.extractDirectionsFromMusicXML(xmlContent);
+    
     // Parse key signature from OSMD after loading (before rendering)
     this.parseKeySignatureFromOSMD();
     
@@ -107,10 +176,249 @@ export class ScoreRenderer {
     this.parseNotes();
     
     // Build playback sequence with repeat handling
-    this.repeatHandler.buildPlaybackSequence(this.osmd, this.noteGroups);
+    this.repeatHandler.buildPlaybackSequence(this.osmd, this.noteGroups, this.barlineRepeats);
     
     // Setup click handlers after everything is ready
     this.setupNoteClickHandlers();
+    this.setupLoopDragHandlers();
+  }
+
+  /**
+   * Dragging across the score selects a measure range to loop
+   */
+  private setupLoopDragHandlers(): void {
+    const scoreContainer = document.getElementById('score-display');
+    if (!scoreContainer || this.loopDragHandlersAttached) return;
+    this.loopDragHandlersAttached = true;
+
+    let dragStart: { x: number; y: number; measure: number } | null = null;
+    let dragRange: LoopRange | null = null;
+    let swallowClick = false;
+
+    scoreContainer.addEventListener('pointerdown', (e) => {
+      if (e.button !== 0) return;
+      const measure = this.getMeasureAtPoint(e.clientX, e.clientY);
+      dragStart = measure !== null ? { x: e.clientX, y: e.clientY, measure } : null;
+      dragRange = null;
+    });
+
+    scoreContainer.addEventListener('pointermove', (e) => {
+      if (!dragStart) return;
+
+      // Small movements are still clicks
+      if (!dragRange && Math.hypot(e.clientX - dragStart.x, e.clientY - dragStart.y) < 8) return;
+
+      const measure = this.getMeasureAtPoint(e.clientX, e.clientY);
+      if (measure === null) return;
+
+      dragRange = {
+        startMeasure: Math.min(dragStart.measure, measure),
+        endMeasure: Math.max(dragStart.measure, measure)
+      };
+      this.drawLoopRegion(dragRange);
+    });
+
+    scoreContainer.addEventListener('pointerup', () => {
+      if (dragRange) {
+        swallowClick = true;
+        if (this.onLoopSelectCallback) {
+          this.onLoopSelectCallback(dragRange.startMeasure, dragRange.endMeasure);
+        } else {
+          this.drawLoopRegion(this.loopRange);
+        }
+      }
+      dragStart = null;
+      dragRange = null;
+    });
+
+    // A drag ends with a click - don't let it move the cursor
+    scoreContainer.addEventListener('click', (e) => {
+      if (swallowClick) {
+        swallowClick = false;
+        e.stopImmediatePropagation();
+      }
+    }, true);
+  }
+
+  onLoopSelect(callback: (startMeasure: number, endMeasure: number) => void): void {
+    this.onLoopSelectCallback = callback;
+  }
+
+  /**
+   * Bounds of a measure across all staves, in SVG units
+   */
+  private getMeasureBounds(measureIndex: number): { x: number; y: number; width: number; height: number } | null {
+    const staffMeasures = this.osmd?.GraphicSheet?.MeasureList?.[measureIndex];
+    if (!staffMeasures) return null;
+
+    let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity;
+    staffMeasures.forEach((measure: any) => {
+      const shape = measure?.PositionAndShape;
+      if (!shape) return;
+      const position = shape.AbsolutePosition;
+      left = Math.min(left, position.x);
+      top = Math.min(top, position.y);
+      right = Math.max(right, position.x + shape.Size.width);
+      bottom = Math.max(bottom, position.y + shape.Size.height);
+    });
+
+    if (left === Infinity) return null;
+
+    // OSMD units are 10 SVG units; pad vertically to cover ledger lines
+    const padding = 2;
+    return {
+      x: left * 10,
+      y: (top - padding) * 10,
+      width: (right - left) * 10,
+      height: (bottom - top + padding * 2) * 10
+    };
+  }
+
+  private getMeasureAtPoint(clientX: number, clientY: number): number | null {
+    const svg = document.querySelector('#score-display svg') as SVGSVGElement | null;
+    const matrix = svg?.getScreenCTM();
+    if (!this.osmd || !matrix) return null;
+
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    const measureCount = this.osmd.GraphicSheet.MeasureList.length;
+
+    for (let i = 0; i < measureCount; i++) {
+      const bounds = this.getMeasureBounds(i);
+      if (bounds && point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+          point.y >= bounds.y && point.y <= bounds.y + bounds.height) {
+        return i;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Shade a measure range as the loop region (null clears it)
+   */
+  setLoopRegion(range: LoopRange | null): void {
+    this.loopRange = range;
+    this.drawLoopRegion(range);
+  }
+
+  /**
+   * Mark notes of a note group red where the student slipped
+   */
+  markNoteErrors(noteGroupIndex: number, pitches: number[]): void {
+    const marked = this.noteErrors.get(noteGroupIndex) || new Set<number>();
+    pitches.forEach(pitch => marked.add(pitch));
+    this.noteErrors.set(noteGroupIndex, marked);
+    this.drawNoteErrors();
+  }
+
+  clearNoteErrors(): void {
+    if (this.noteErrors.size === 0) return;
+    this.noteErrors.clear();
+
+    // Put back the colours saved when the notes were marked
+    document.querySelectorAll('#score-display [data-error-fill]').forEach(path => {
+      ['fill', 'stroke'].forEach(attribute => {
+        const original = path.getAttribute(`data-error-${attribute}`);
+        if (original) {
+          path.setAttribute(attribute, original);
+        } else {
+          path.removeAttribute(attribute);
+        }
+        path.removeAttribute(`data-error-${attribute}`);
+      });
+    });
+  }
+
+  private drawNoteErrors(): void {
+    if (!this.osmd || this.noteErrors.size === 0) return;
+
+    this.osmd.GraphicSheet.MeasureList.forEach((measureList: any) => {
+      measureList.forEach((measure: any) => {
+        if (!measure?.staffEntries) return;
+        measure.staffEntries.forEach((staffEntry: any) => {
+          if (!staffEntry?.graphicalVoiceEntries) return;
+          staffEntry.graphicalVoiceEntries.forEach((graphicalVoiceEntry: any) => {
+            if (!graphicalVoiceEntry?.notes) return;
+            graphicalVoiceEntry.notes.forEach((graphicalNote: any) => {
+              const sourceNote = graphicalNote.sourceNote;
+              const groupIndex = this.sourceNoteToGroupIndex.get(sourceNote);
+              if (groupIndex === undefined || !sourceNote?.Pitch) return;
+
+              const pitch = sourceNote.Pitch.getHalfTone() + 12;
+              if (!this.noteErrors.get(groupIndex)?.has(pitch)) return;
+
+              const svgElement = graphicalNote.getSVGGElement?.();
+              if (!svgElement) return;
+              svgElement.querySelectorAll('path').forEach((path: Element) => {
+                if (!path.hasAttribute('data-error-fill')) {
+                  path.setAttribute('data-error-fill', path.getAttribute('fill') || '');
+                  path.setAttribute('data-error-stroke', path.getAttribute('stroke') || '');
+                }
+                path.setAttribute('fill', '#f44336');
+                path.setAttribute('stroke', '#f44336');
+              });
+            });
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Tint each measure by its error rate (null hides the heatmap)
+   */
+  setHeatmap(rates: Map<number, number> | null): void {
+    this.heatmap = rates;
+    this.drawHeatmap();
+  }
+
+  private drawHeatmap(): void {
+    const svg = document.querySelector('#score-display svg');
+    if (!svg) return;
+
+    svg.querySelectorAll('.heatmap-region').forEach(el => el.remove());
+    if (!this.heatmap) return;
+
+    this.heatmap.forEach((rate, measureIndex) => {
+      const bounds = this.getMeasureBounds(measureIndex);
+      if (!bounds || rate <= 0) return;
+
+      const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      rect.setAttribute('x', bounds.x.toString());
+      rect.setAttribute('y', bounds.y.toString());
+      rect.setAttribute('width', bounds.width.toString());
+      rect.setAttribute('height', bounds.height.toString());
+      rect.setAttribute('fill', '#f44336');
+      rect.setAttribute('fill-opacity', (0.06 + rate * 0.4).toFixed(2));
+      rect.setAttribute('pointer-events', 'none');
+      rect.setAttribute('class', 'heatmap-region');
+      // Insert first so it sits behind the notation
+      svg.insertBefore(rect, svg.firstChild);
+    });
+  }
+
+  private drawLoopRegion(range: LoopRange | null): void {
+    const svg = document.querySelector('#score-display svg');
+    if (!svg) return;
+
+    svg.querySelectorAll('.loop-region').forEach(el => el.remove());
+    if (!range) return;
+
+    for (let i = range.startMeasure; i <= range.endMeasure; i++) {
+      const bounds = this.getMeasureBounds(i);
+      if (!bounds) continue;
+
+      const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+      rect.setAttribute('x', bounds.x.toString());
+      rect.setAttribute('y', bounds.y.toString());
+      rect.setAttribute('width', bounds.width.toString());
+      rect.setAttribute('height', bounds.height.toString());
+      rect.setAttribute('fill', this.cursorColor);
+      rect.setAttribute('fill-opacity', '0.12');
+      rect.setAttribute('pointer-events', 'none');
+      rect.setAttribute('class', 'loop-region');
+      // Insert first so it sits behind the notation
+      svg.insertBefore(rect, svg.firstChild);
+    }
   }
 
   private setupNoteClickHandlers(): void {
@@ -422,93 +730,333 @@ export class ScoreRenderer {
     return `${noteName}${octave}`;
   }
 
-  private extractTempoFromMusicXML(xmlContent: string): void {
-    this.tempoChanges.clear();
+  /**
+   * Read <pedal> (sustain), <dynamics>, <wedge>, tempo and swing directions and fermatas, and
+   * place them at their position in the measure
+   */
+  private extractDirectionsFromMusicXML(xmlContent: string): void {
+    this.pedalMarkings = [];
+    this.fermatas = [];
+    this.swingMarkings = [];
+    this.dynamicMarkings = [];
+    this.tempoMap = new TempoMap();
+    this.tempo = 120;
+    if (!this.osmd) return;
     
     try {
       const parser = new DOMParser();
       const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
+      const sourceMeasures = this.osmd.Sheet.SourceMeasures;
       
-      const parts = xmlDoc.querySelectorAll('part');
-      if (parts.length === 0) return;
-      
-      // Only process first part to avoid duplicates
-      const part = parts[0];
-      const measures = part.querySelectorAll('measure');
+      // Measure start times in whole notes, matching NoteGroup.absoluteTime
+      const measureStarts: number[] = [];
+      let cumulativeTime = 0;
+      for (const measure of sourceMeasures) {
+        measureStarts.push(cumulativeTime);
+        cumulativeTime += measure.Duration.RealValue;
+      }
       
-      measures.forEach((measure, index) => {
-        // Look for tempo in sound element
-        const soundElement = measure.querySelector('sound[tempo]');
-        if (soundElement) {
-          const tempoAttr = soundElement.getAttribute('tempo');
-          if (tempoAttr) {
-            const tempo = parseFloat(tempoAttr);
-            this.tempoChanges.set(index, tempo);
-            console.log(`Tempo change at measure ${index + 1}: ${tempo} BPM`);
-          }
-        }
+      const tempoDirections: TempoDirection[] = [];
+      const fermatas = new Map<string, Fermata>(); // One per position, whichever staff it's on
+      xmlDoc.querySelectorAll('part').forEach((part, partIndex) => {
+        let divisionsPerQuarter = 1;
         
-        // Look for metronome marking
-        const metronome = measure.querySelector('metronome');
-        if (metronome) {
-          const beatUnit = metronome.querySelector('beat-unit')?.textContent;
-          const perMinute = metronome.querySelector('per-minute')?.textContent;
+        part.querySelectorAll('measure').forEach((measure, measureIndex) => {
+          if (measureIndex >= measureStarts.length) return;
+          let positionInDivisions = 0;
+          let noteStart = 0; // Where the last non-chord note started, for the chord notes after it
           
-          if (beatUnit && perMinute) {
-            let tempo = parseFloat(perMinute);
+          for (const element of Array.from(measure.children)) {
+            const duration = parseInt(element.querySelector(':scope > duration')?.textContent || '0');
             
-            // Adjust for beat unit (if not quarter note)
-            if (beatUnit === 'half') {
-              tempo = tempo * 2;
-            } else if (beatUnit === 'eighth') {
-              tempo = tempo / 2;
-            } else if (beatUnit === 'whole') {
-              tempo = tempo * 4;
+            if (element.tagName === 'attributes') {
+              const divisions = element.querySelector('divisions');
+              if (divisions) divisionsPerQuarter = parseInt(divisions.textContent || '1');
+            } else if (element.tagName === 'note') {
+              if (!element.querySelector('chord')) noteStart = positionInDivisions;
+              if (element.querySelector('notations fermata') && duration > 0) {
+                const absoluteTime = measureStarts[measureIndex] + noteStart / divisionsPerQuarter / 4;
+                const key = absoluteTime.toFixed(6);
+                const length = duration / divisionsPerQuarter / 4;
+                fermatas.set(key, { absoluteTime, duration: Math.max(length, fermatas.get(key)?.duration ?? 0) });
+              }
+              if (!element.querySelector('chord')) positionInDivisions += duration;
+            } else if (element.tagName === 'backup') {
+              positionInDivisions -= duration;
+            } else if (element.tagName === 'forward') {
+              positionInDivisions += duration;
+            } else if (element.tagName === 'sound' && partIndex === 0) {
+              // Tempo and swing directions are the same in every part, so only the first is read
+              const absoluteTime = measureStarts[measureIndex] + positionInDivisions / divisionsPerQuarter / 4;
+              const bpm = parseFloat(element.getAttribute('tempo') || '');
+              if (bpm > 0) {
+                tempoDirections.push({ absoluteTime, bpm });
+              }
+              const swing = this.parseSwing(element);
+              if (swing) {
+                this.swingMarkings.push({ absoluteTime, ...swing });
+              }
+            } else if (element.tagName === 'direction') {
+              const pedalType = element.querySelector('direction-type pedal')?.getAttribute('type');
+              const type = pedalType === 'start' || pedalType === 'resume' ? 'down'
+                : pedalType === 'stop' || pedalType === 'discontinue' ? 'up'
+                : pedalType === 'change' ? 'change'
+                : null;
+              const absoluteTime = measureStarts[measureIndex] + positionInDivisions / divisionsPerQuarter / 4;
+              if (type) {
+                this.pedalMarkings.push({ absoluteTime, type });
+              }
+              
+              // Staff 1 is the right hand, staff 2 the left; no staff means both
+              const staff = element.querySelector(':scope > staff')?.textContent?.trim();
+              const hand = staff === '1' ? 'right' : staff === '2' ? 'left' : null;
+              
+              const level = Array.from(element.querySelectorAll('direction-type dynamics > *'))
+                .map(dynamic => dynamic.tagName)
+                .find((tagName): tagName is DynamicLevel => DYNAMIC_LEVELS.includes(tagName as DynamicLevel));
+              if (level) {
+                this.dynamicMarkings.push({ absoluteTime, hand, type: 'level', level });
+              }
+              
+              const wedgeType = element.querySelector('direction-type wedge')?.getAttribute('type');
+              if (wedgeType === 'crescendo' || wedgeType === 'diminuendo') {
+                this.dynamicMarkings.push({ absoluteTime, hand, type: wedgeType });
+              } else if (wedgeType === 'stop') {
+                this.dynamicMarkings.push({ absoluteTime, hand, type: 'wedge-end' });
+              }
+              
+              const tempoDirection = partIndex === 0 ? this.parseTempoDirection(element, absoluteTime) : null;
+              if (tempoDirection) {
+                tempoDirections.push(tempoDirection);
+              }
+              
+              const swing = partIndex === 0 ? this.parseSwing(element) : null;
+              if (swing) {
+                this.swingMarkings.push({ absoluteTime, ...swing });
+              }
             }
-            
-            this.tempoChanges.set(index, tempo);
-            console.log(`Tempo change at measure ${index + 1}: ${tempo} BPM (from metronome)`);
           }
+        });
+      });
+      
+      this.pedalMarkings.sort((a, b) => a.absoluteTime - b.absoluteTime);
+      this.fermatas = [...fermatas.values()].sort((a, b) => a.absoluteTime - b.absoluteTime);
+      this.swingMarkings.sort((a, b) => a.absoluteTime - b.absoluteTime);
+      this.dynamicMarkings.sort((a, b) => a.absoluteTime - b.absoluteTime);
+      this.tempoMap = this.buildTempoMap(tempoDirections, cumulativeTime);
+      this.tempo = this.tempoMap.getTempoAt(0);
+      if (this.pedalMarkings.length > 0 || this.dynamicMarkings.length > 0 || this.fermatas.length > 0 || this.swingMarkings.length > 0) {
+        console.log(`Found ${this.pedalMarkings.length} pedal markings, ${this.dynamicMarkings.length} dynamics markings, ${this.fermatas.length} fermatas, ${this.swingMarkings.length} swing markings`);
+      }
+    } catch (error) {
+      console.error('Failed to extract pedal, dynamics, tempo, fermata and swing markings:', error);
+    }
+  }
+
+  /**
+   * The tempo in a <direction>: its <sound tempo>, else a metronome mark, else tempo words; also
+   * rit./accel. (with any dashes after them), "a tempo" and "tempo primo"
+   */
+  private parseTempoDirection(direction: Element, absoluteTime: number): TempoDirection | null {
+    const tempoDirection: TempoDirection = { absoluteTime };
+    const words = Array.from(direction.querySelectorAll('direction-type words'))
+      .map(element => element.textContent || '')
+      .join(' ')
+      .toLowerCase();
+    
+    const soundTempo = parseFloat(direction.querySelector(':scope > sound')?.getAttribute('tempo') || '');
+    const metronome = direction.querySelector('direction-type metronome');
+    if (soundTempo > 0) {
+      tempoDirection.bpm = soundTempo;
+    } else if (metronome) {
+      // Beat units in order with their dots: "dotted quarter = 60" or "quarter = dotted quarter"
+      const units: { quarters: number; dots: number }[] = [];
+      for (const child of Array.from(metronome.children)) {
+        if (child.tagName === 'beat-unit') {
+          units.push({ quarters: BEAT_UNIT_QUARTERS[child.textContent?.trim() || ''] ?? 1, dots: 0 });
+        } else if (child.tagName === 'beat-unit-dot' && units.length > 0) {
+          units[units.length - 1].dots++;
         }
-        
-        // Look for direction with tempo words
-        const directions = measure.querySelectorAll('direction');
-        Array.from(directions).forEach((direction) => {
-          const words = direction.querySelector('words')?.textContent?.toLowerCase();
-          if (words) {
-            let tempo = 0;
-            if (words.includes('grave')) tempo = 40;
-            else if (words.includes('largo')) tempo = 50;
-            else if (words.includes('lento')) tempo = 60;
-            else if (words.includes('adagio')) tempo = 70;
-            else if (words.includes('andante')) tempo = 90;
-            else if (words.includes('moderato')) tempo = 110;
-            else if (words.includes('allegretto')) tempo = 115;
-            else if (words.includes('allegro')) tempo = 140;
-            else if (words.includes('vivace')) tempo = 160;
-            else if (words.includes('presto')) tempo = 180;
-            else if (words.includes('prestissimo')) tempo = 200;
-            
-            if (tempo > 0) {
-              this.tempoChanges.set(index, tempo);
-              console.log(`Tempo change at measure ${index + 1}: ${tempo} BPM (from ${words})`);
+      }
+      // Each dot adds half of what the one before it added
+      const beatUnits = units.map(unit => unit.quarters * (2 - Math.pow(0.5, unit.dots)));
+      const perMinute = parseFloat((metronome.querySelector('per-minute')?.textContent || '').replace(/[^\d.]+/g, ' ').trim());
+      if (beatUnits.length > 0 && perMinute > 0) {
+        tempoDirection.bpm = perMinute * beatUnits[0];
+      } else if (beatUnits.length === 2) {
+        tempoDirection.modulation = beatUnits[1] / beatUnits[0];
+      }
+    } else if (words) {
+      // The leading tempo word counts, so "allegro moderato" is an allegro
+      let firstIndex = Infinity;
+      for (const [word, bpm] of TEMPO_WORDS) {
+        const index = words.search(new RegExp(`\\b${word}\\b`));
+        if (index >= 0 && index < firstIndex) {
+          firstIndex = index;
+          tempoDirection.bpm = bpm;
+        }
+      }
+    }
+    
+    if (/\b(rit|ritard|ritardando|riten|ritenuto|rall|rallentando|allarg|allargando|slentando)\b/.test(words)) {
+      tempoDirection.ramp = 'ritardando';
+    } else if (/\b(accel|accelerando|string|stringendo)\b/.test(words)) {
+      tempoDirection.ramp = 'accelerando';
+    }
+    tempoDirection.aTempo = /\ba tempo\b/.test(words);
+    tempoDirection.tempoPrimo = /\btempo (primo|i|1)\b/.test(words);
+    
+    const dashes = direction.querySelector('direction-type dashes');
+    const dashesType = dashes?.getAttribute('type');
+    if (dashesType === 'start' || dashesType === 'stop') {
+      tempoDirection.dashes = { type: dashesType, number: dashes?.getAttribute('number') || '1' };
+    }
+    
+    const found = tempoDirection.bpm !== undefined || tempoDirection.modulation !== undefined ||
+      tempoDirection.ramp !== undefined || tempoDirection.aTempo || tempoDirection.tempoPrimo || tempoDirection.dashes;
+    return found ? tempoDirection : null;
+  }
+
+  /**
+   * Swing from a <swing> element (MusicXML 4, in a <sound>) or from words like "Swing" and
+   * "Straight"; the element wins over words. Swing words without a ratio are taken as triplet swing.
+   */
+  private parseSwing(element: Element): Omit<SwingMarking, 'absoluteTime'> | null {
+    const swing = element.querySelector('swing');
+    if (swing) {
+      if (swing.querySelector('straight')) return { ratio: 0.5, unit: 1 / 8 };
+
+      const first = parseFloat(swing.querySelector('first')?.textContent || '');
+      const second = parseFloat(swing.querySelector('second')?.textContent || '');
+      const unit = swing.querySelector('swing-type')?.textContent?.trim() === '16th' ? 1 / 16 : 1 / 8;
+      return first > 0 && second > 0 ? { ratio: first / (first + second), unit } : null;
+    }
+
+    const words = Array.from(element.querySelectorAll('direction-type words'))
+      .map(node => node.textContent || '')
+      .join(' ')
+      .toLowerCase();
+    if (/\b(swing|swung)\b/.test(words)) return { ratio: 2 / 3, unit: 1 / 8 };
+    if (/\bstraight\b/.test(words)) return { ratio: 0.5, unit: 1 / 8 };
+    return null;
+  }
+
+  /**
+   * Resolve tempo directions in score order into tempo markings and rit./accel. spans. A span
+   * with dashes ends at their stop; otherwise at the next tempo change, "a tempo" or rit./accel.
+   */
+  private buildTempoMap(directions: TempoDirection[], endTime: number): TempoMap {
+    const markings = new Map<number, number>(); // absoluteTime -> bpm
+    const ramps: TempoRamp[] = [];
+    let tempo = 120;
+    let firstTempo: number | null = null;
+    let openRamp: { startTime: number; type: TempoRampType; dashesNumber: string | null } | null = null;
+    
+    const closeRamp = (time: number) => {
+      if (openRamp && time > openRamp.startTime) {
+        ramps.push({ startTime: openRamp.startTime, endTime: time, type: openRamp.type });
+      }
+      openRamp = null;
+    };
+    
+    [...directions].sort((a, b) => a.absoluteTime - b.absoluteTime).forEach(direction => {
+      const { absoluteTime } = direction;
+      if (direction.dashes?.type === 'stop' && openRamp?.dashesNumber === direction.dashes.number) {
+        closeRamp(absoluteTime);
+      }
+      
+      if (direction.bpm !== undefined || direction.modulation !== undefined || direction.aTempo || direction.tempoPrimo || direction.ramp) {
+        closeRamp(absoluteTime);
+      }
+      
+      if (direction.bpm !== undefined) {
+        tempo = direction.bpm;
+      } else if (direction.modulation !== undefined) {
+        tempo = tempo * direction.modulation;
+      } else if (direction.tempoPrimo) {
+        tempo = firstTempo ?? tempo;
+      }
+      if (direction.bpm !== undefined || direction.modulation !== undefined || direction.aTempo || direction.tempoPrimo) {
+        firstTempo = firstTempo ?? tempo;
+        markings.set(absoluteTime, tempo);
+      }
+      
+      if (direction.ramp) {
+        const dashesNumber = direction.dashes?.type === 'start' ? direction.dashes.number : null;
+        openRamp = { startTime: absoluteTime, type: direction.ramp, dashesNumber };
+      } else if (direction.dashes?.type === 'start' && openRamp && openRamp.dashesNumber === null &&
+                 Math.abs(openRamp.startTime - absoluteTime) < 1e-6) {
+        // Dashes written as their own direction next to the rit./accel.
+        openRamp.dashesNumber = direction.dashes.number;
+      }
+    });
+    closeRamp(endTime);
+    
+    if (markings.size === 0) {
+      console.log('No initial tempo found, using default: 120 BPM');
+    }
+    return new TempoMap(
+      Array.from(markings.entries()).map(([absoluteTime, bpm]) => ({ absoluteTime, bpm })),
+      ramps
+    );
+  }
+
+  private extractRepeatsFromMusicXML(xmlContent: string): void {
+    this.barlineRepeats = { repeatTimes: new Map(), endingNumbers: new Map() };
+    
+    try {
+      const parser = new DOMParser();
+      const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
+      
+      const parts = xmlDoc.querySelectorAll('part');
+      if (parts.length === 0) return;
+      
+      // Barlines are the same in every part, so only process the first
+      const measures = parts[0].querySelectorAll('measure');
+      
+      measures.forEach((measure, index) => {
+        measure.querySelectorAll('barline').forEach((barline) => {
+          // Backward repeat with an explicit number of passes, e.g. "play 3x"
+          const repeat = barline.querySelector('repeat[direction="backward"]');
+          const times = parseInt(repeat?.getAttribute('times') || '', 10);
+          if (!isNaN(times) && times > 0) {
+            this.barlineRepeats.repeatTimes.set(index, times);
+            console.log(`Repeat at measure ${index + 1}: ${times} times`);
+          }
+          
+          // Volta start, e.g. number="1, 2, 3" with text "1.-3."
+          const ending = barline.querySelector('ending[type="start"]');
+          if (ending) {
+            const numbers = new Set([
+              ...this.parseEndingNumbers(ending.getAttribute('number') || ''),
+              ...this.parseEndingNumbers(ending.textContent || '')
+            ]);
+            if (numbers.size > 0) {
+              this.barlineRepeats.endingNumbers.set(index, Array.from(numbers).sort((a, b) => a - b));
             }
           }
         });
       });
-      
-      // Set initial tempo
-      if (this.tempoChanges.has(0)) {
-        this.tempo = this.tempoChanges.get(0)!;
+    } catch (error) {
+      console.error('Failed to extract repeats:', error);
+    }
+  }
+
+  private parseEndingNumbers(text: string): number[] {
+    // Accepts lists and ranges such as "1, 2", "1.-3." or "4."
+    const numbers: number[] = [];
+    const rangePattern = /(\d+)\.?\s*[-–]\s*(\d+)|(\d+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = rangePattern.exec(text)) !== null) {
+      if (match[3] !== undefined) {
+        numbers.push(parseInt(match[3], 10));
       } else {
-        this.tempo = 120;
-        console.log('No initial tempo found, using default: 120 BPM');
+        const from = parseInt(match[1], 10);
+        const to = parseInt(match[2], 10);
+        for (let n = from; n <= to; n++) numbers.push(n);
       }
-      
-    } catch (error) {
-      console.error('Failed to extract tempo:', error);
-      this.tempo = 120;
     }
+    return numbers;
   }
 
   private extractDynamicsFromMusicXML(xmlContent: string): void {
@@ -527,12 +1075,19 @@ export class ScoreRenderer {
         const measures = part.querySelectorAll('measure');
         measures.forEach((measure) => {
           const measureNumber = measure.getAttribute('number') || '0';
-          const notes = measure.querySelectorAll('note');
+          // Notes plus backup/forward, which move the time position between voices and staves
+          const notes = measure.querySelectorAll('note, backup, forward');
           
           // Track timestamp in beats (quarter notes)
           let timestampInBeats = 0;
           
           notes.forEach((noteEl) => {
+            if (noteEl.tagName !== 'note') {
+              const moveInBeats = parseInt(noteEl.querySelector('duration')?.textContent || '0') / divisionsPerQuarter;
+              timestampInBeats += noteEl.tagName === 'backup' ? -moveInBeats : moveInBeats;
+              return;
+            }
+            
             // Skip if it's a chord note (doesn't advance time)
             const isChord = noteEl.querySelector('chord') !== null;
             
@@ -554,8 +1109,8 @@ export class ScoreRenderer {
               };
               const midiNote = (parseInt(octave) + 1) * 12 + stepToMidi[step] + parseInt(alter);
               
-              // Create unique key using beats as timestamp
-              const timestampKey = Math.round(timestampInBeats * 1000); // Use milliseconds precision
+              // Create unique key in whole notes to match OSMD timestamps
+              const timestampKey = Math.round(timestampInBeats / 4 * 1000); // Use milliseconds precision
               const key = `${measureNumber}-${staff}-${voice}-${timestampKey}-${midiNote}`;
               const dynamicsValue = parseFloat(dynamics);
               this.noteDynamics.set(key, dynamicsValue);
@@ -577,6 +1132,7 @@ export class ScoreRenderer {
     if (!this.osmd) return;
 
     this.noteGroups = [];
+    this.measureTimings = [];
     this.noteGroupToCursorPosition.clear();
     this.sourceNoteToGroupIndex.clear();
     const sheet = this.osmd.Sheet;
@@ -725,9 +1281,20 @@ export class ScoreRenderer {
         // Update cumulative time for next measure
         // Get the measure length from the last timestamp + its duration
         const measureLength = measure.Duration.RealValue;
+        const timeSignature = measure.ActiveTimeSignature;
+        this.measureTimings.push({
+          measureIndex,
+          absoluteTime: measureStartTime,
+          duration: measureLength,
+          timeSignature: timeSignature
+            ? { numerator: timeSignature.Numerator, denominator: timeSignature.Denominator }
+            : { numerator: 4, denominator: 4 },
+        });
         cumulativeTime += measureLength;
       }
 
+      this.tempoMap.setMeasures(this.measureTimings);
+
       const sortedTimestamps = Array.from(notesByTimestamp.keys()).sort((a, b) => a - b);
       
       for (const timestamp of sortedTimestamps) {
@@ -736,17 +1303,9 @@ export class ScoreRenderer {
           const noteGroupIndex = this.noteGroups.length;
           const measureIndex = notes[0].measureIndex;
           
-          // Find the tempo for this measure (use most recent tempo change)
-          let tempo = this.tempo;
-          for (let m = measureIndex; m >= 0; m--) {
-            if (this.tempoChanges.has(m)) {
-              tempo = this.tempoChanges.get(m)!;
-              break;
-            }
-          }
-          
-          // Get absolute time position
+          // Get absolute time position, and the tempo there
           const absoluteTime = timestampToAbsoluteTime.get(timestamp) || 0;
+          const tempo = this.tempoMap.getTempoAt(absoluteTime);
           
           this.noteGroups.push({
             notes,
@@ -796,6 +1355,41 @@ export class ScoreRenderer {
     return this.tempo;
   }
 
+  /**
+   * Tempo markings, rit./accel. spans and time signatures of the loaded score by position
+   */
+  getTempoMap(): TempoMap {
+    return this.tempoMap;
+  }
+
+  /**
+   * Sustain pedal markings in time order
+   */
+  getPedalMarkings(): PedalMarking[] {
+    return this.pedalMarkings;
+  }
+
+  /**
+   * Fermatas in time order, one per position
+   */
+  getFermatas(): Fermata[] {
+    return this.fermatas;
+  }
+
+  /**
+   * Swing and straight markings in time order
+   */
+  getSwingMarkings(): SwingMarking[] {
+    return this.swingMarkings;
+  }
+
+  /**
+   * Dynamics levels (pp to ff) and hairpins in time order
+   */
+  getDynamicMarkings(): DynamicMarking[] {
+    return this.dynamicMarkings;
+  }
+
   moveCursorToNoteGroup(index: number): void {
     if (!this.osmd || index < 0 || index >= this.noteGroups.length) return;
     
@@ -892,6 +1486,9 @@ export class ScoreRenderer {
     if (this.osmd) {
       this.osmd.render();
       this.drawNoteNames();
+      this.drawLoopRegion(this.loopRange);
+      this.drawHeatmap();
+      this.drawNoteErrors();
       
       // Restore cursor options after render
       if (this.osmd.cursor) {
@@ -912,6 +1509,9 @@ export class ScoreRenderer {
       this.osmd.zoom = level;
       this.osmd.render();
       this.drawNoteNames();
+      this.drawLoopRegion(this.loopRange);
+      this.drawHeatmap();
+      this.drawNoteErrors();
     }
   }
 
@@ -920,6 +1520,9 @@ export class ScoreRenderer {
     if (this.osmd) {
       this.osmd.render();
       this.drawNoteNames();
+      this.drawLoopRegion(this.loopRange);
+      this.drawHeatmap();
+      this.drawNoteErrors();
     }
   }
 
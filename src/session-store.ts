@@ -0,0 +1,166 @@
+import type { PracticeSession, SessionQuery } from './shared/types';
+
+interface RetentionPolicy {
+  maxAgeDays: number; // Sessions older than this are deleted
+  maxSessionsPerScore: number; // Only the newest sessions of each score are kept
+}
+
+/**
+ * Practice session history in IndexedDB
+ */
+export class SessionStore {
+  private readonly DB_NAME = 'piano-play-along';
+  private readonly DB_VERSION = 1;
+  private readonly STORE_NAME = 'sessions';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private retention: RetentionPolicy;
+
+  constructor(retention: Partial<RetentionPolicy> = {}) {
+    this.retention = { maxAgeDays: 365, maxSessionsPerScore: 200, ...retention };
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+            const store = db.createObjectStore(this.STORE_NAME, { keyPath: 'id', autoIncrement: true });
+            store.createIndex('scoreId', 'scoreId');
+            store.createIndex('startedAt', 'startedAt');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          // Allow a later call to retry
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Store a finished session and apply the retention policy. Returns the new session id.
+   */
+  async addSession(session: PracticeSession): Promise<number> {
+    const db = await this.getDb();
+    const store = db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME);
+    const { id: _id, ...record } = session;
+    const id = await this.request(store.add(record)) as number;
+    console.log(`Saved practice session ${id} for "${session.scoreTitle}"`);
+
+    await this.applyRetention();
+    return id;
+  }
+
+  /**
+   * Sessions matching the query, newest first
+   */
+  async getSessions(query: SessionQuery = {}): Promise<PracticeSession[]> {
+    const db = await this.getDb();
+    const store = db.transaction(this.STORE_NAME, 'readonly').objectStore(this.STORE_NAME);
+
+    const sessions = query.scoreId !== undefined
+      ? await this.request(store.index('scoreId').getAll(query.scoreId)) as PracticeSession[]
+      : await this.request(store.getAll()) as PracticeSession[];
+
+    const filtered = sessions
+      .filter(session => query.since === undefined || session.startedAt >= query.since)
+      .filter(session => query.until === undefined || session.startedAt < query.until)
+      .sort((a, b) => b.startedAt - a.startedAt);
+
+    return query.limit !== undefined ? filtered.slice(0, query.limit) : filtered;
+  }
+
+  async getSession(id: number): Promise<PracticeSession | null> {
+    const db = await this.getDb();
+    const store = db.transaction(this.STORE_NAME, 'readonly').objectStore(this.STORE_NAME);
+    const session = await this.request(store.get(id)) as PracticeSession | undefined;
+    return session || null;
+  }
+
+  /**
+   * Distinct scores that have sessions, most recently practised first
+   */
+  async getScoreIds(): Promise<string[]> {
+    const sessions = await this.getSessions();
+    return [...new Set(sessions.map(session => session.scoreId))];
+  }
+
+  async deleteSession(id: number): Promise<void> {
+    const db = await this.getDb();
+    const store = db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME);
+    await this.request(store.delete(id));
+  }
+
+  /**
+   * Delete every session, or just those of one score
+   */
+  async clear(scoreId?: string): Promise<void> {
+    const db = await this.getDb();
+
+    if (scoreId === undefined) {
+      const store = db.transaction(this.STORE_NAME, 'readwrite').objectStore(this.STORE_NAME);
+      await this.request(store.clear());
+      return;
+    }
+
+    const sessions = await this.getSessions({ scoreId });
+    await this.deleteSessions(sessions.map(session => session.id!));
+  }
+
+  setRetentionPolicy(retention: Partial<RetentionPolicy>): void {
+    this.retention = { ...this.retention, ...retention };
+  }
+
+  /**
+   * Drop sessions past the maximum age, then all but the newest sessions of each score
+   */
+  async applyRetention(): Promise<void> {
+    const cutoff = Date.now() - this.retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    const sessions = await this.getSessions();
+    const keptPerScore = new Map<string, number>();
+    const expired: number[] = [];
+
+    // Newest first, so the count per score reaches the limit on the oldest sessions
+    for (const session of sessions) {
+      const kept = keptPerScore.get(session.scoreId) || 0;
+      if (session.startedAt < cutoff || kept >= this.retention.maxSessionsPerScore) {
+        expired.push(session.id!);
+      } else {
+        keptPerScore.set(session.scoreId, kept + 1);
+      }
+    }
+
+    if (expired.length > 0) {
+      await this.deleteSessions(expired);
+      console.log(`Session retention removed ${expired.length} sessions`);
+    }
+  }
+
+  private async deleteSessions(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const db = await this.getDb();
+    const transaction = db.transaction(this.STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(this.STORE_NAME);
+    ids.forEach(id => store.delete(id));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
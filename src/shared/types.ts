@@ -21,6 +21,181 @@ export interface NoteGroup {
   absoluteTime?: number; // Absolute time position in quarter notes from start of piece
 }
 
+export type TimingMode = 'wait' | 'timed';
+
+export type TimingResult = 'early' | 'on-time' | 'late' | 'missed';
+
+export interface TimingWindows {
+  onTime: number; // ms either side of the beat graded as on time
+  early: number; // furthest ahead of the beat (ms) a note still counts for it
+  late: number; // furthest behind the beat (ms) a note still counts for it
+}
+
+export interface TimingGrade {
+  pitch: number;
+  result: TimingResult;
+  offsetMs: number; // Negative = early, positive = late (0 when missed)
+  noteGroupIndex: number;
+  position: number; // Position in playback sequence
+}
+
+export type MistakeType = 'wrong' | 'extra' | 'hesitation' | 'pedal';
+
+export interface PracticeMistake {
+  type: MistakeType;
+  noteGroupIndex: number;
+  position: number; // Position in playback sequence
+  expectedNotes: number[]; // What the student should have played here
+  pitch?: number; // The key pressed (wrong/extra)
+  hesitationMs?: number; // Time waited beyond the notated rhythm (hesitation)
+  pedalDown?: boolean; // Sustain pedal state the score asks for (pedal)
+}
+
+export type PedalType = 'sustain' | 'soft' | 'sostenuto';
+
+export interface PedalMarking {
+  absoluteTime: number; // Whole notes from the start of the piece, like NoteGroup.absoluteTime
+  type: 'down' | 'up' | 'change'; // 'change' lifts and re-presses the pedal
+}
+
+export interface Fermata {
+  absoluteTime: number; // Where the held note or rest starts, in whole notes
+  duration: number; // Written length of the longest note or rest held, in whole notes
+}
+
+export interface SwingMarking {
+  absoluteTime: number; // Whole notes from the start of the piece
+  ratio: number; // Share of each pair of swung notes the first takes: 0.5 is straight, 2/3 triplet swing
+  unit: number; // Written length of the swung notes in whole notes (1/8 for swing eighths)
+}
+
+export interface HumanizeSettings {
+  timingMs: number; // Largest nudge of a note group either side of the beat
+  velocity: number; // Largest change of a note's velocity either way (velocities run 0-1)
+  chordSpreadMs: number; // Largest gap between a chord's lowest and highest notes
+}
+
+export type DynamicLevel = 'ppp' | 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff' | 'fff';
+
+export interface DynamicMarking {
+  absoluteTime: number; // Whole notes from the start of the piece, like NoteGroup.absoluteTime
+  hand: 'left' | 'right' | null; // Staff the marking is on, null when it applies to both
+  type: 'level' | 'crescendo' | 'diminuendo' | 'wedge-end';
+  level?: DynamicLevel; // For 'level'
+}
+
+/**
+ * How a phrase was played against its dynamics, from the velocities of the notes in it
+ */
+export interface DynamicsFeedback {
+  type: 'too-loud' | 'too-soft' | 'no-crescendo' | 'no-diminuendo';
+  hand: 'left' | 'right';
+  startMeasure: number; // Measure indexes (0-based) of the first and last notes played
+  endMeasure: number;
+  level?: DynamicLevel; // The marking, for too loud/too soft
+  averageVelocity: number; // 1-127
+}
+
+export interface TimeSignature {
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * Where a measure sits in the score and the meter it is in
+ */
+export interface MeasureTiming {
+  measureIndex: number;
+  absoluteTime: number; // Whole notes from the start of the piece, like NoteGroup.absoluteTime
+  duration: number; // Whole notes actually in the measure (less than a full bar for pickups)
+  timeSignature: TimeSignature;
+}
+
+/**
+ * A tempo taking effect at a point in the score, in quarter notes per minute
+ */
+export interface TempoMarking {
+  absoluteTime: number;
+  bpm: number;
+}
+
+export type TempoRampType = 'ritardando' | 'accelerando';
+
+/**
+ * A gradual tempo change (rit., rall., accel.) from its marking to its end: the dashes after it,
+ * the next tempo marking or "a tempo", or the end of the piece
+ */
+export interface TempoRamp {
+  startTime: number; // Whole notes, like NoteGroup.absoluteTime
+  endTime: number;
+  type: TempoRampType;
+}
+
+/**
+ * A metronome click, in whole notes (from the start of the piece, or of the count-in)
+ */
+export interface MetronomeBeat {
+  time: number;
+  accent: boolean; // First beat of the bar
+}
+
+export type CountInBars = 0 | 1 | 2;
+
+/**
+ * Speed trainer tempo multipliers: start slow, move by `step` after each pass, up to the target
+ */
+export interface SpeedTrainerSettings {
+  startMultiplier: number;
+  step: number;
+  targetMultiplier: number;
+}
+
+export interface MeasureStats {
+  notesPlayed: number; // Expected notes played through in this measure
+  wrongNotes: number; // Wrong and extra presses, plus missed notes when playing along
+  hesitationMs: number; // Total hesitation time
+}
+
+export interface MeasureSessionStats extends MeasureStats {
+  measureIndex: number;
+  accuracy: number; // notesPlayed / (notesPlayed + wrongNotes), 1 when clean
+}
+
+export interface PracticeSession {
+  id?: number; // Assigned by the session store
+  scoreId: string; // Score identity (title, or file name when untitled)
+  scoreTitle: string;
+  startedAt: number; // Epoch ms of the first note
+  durationMs: number; // First note to last note
+  practiceMode: PracticeMode;
+  timingMode: TimingMode;
+  tempoMultiplier: number;
+  completed: boolean; // Reached the end of the score
+  notesPlayed: number;
+  wrongNotes: number;
+  accuracy: number; // Over the whole run
+  measures: MeasureSessionStats[];
+  dynamics?: DynamicsFeedback[]; // Only when dynamics were checked
+}
+
+export interface SessionQuery {
+  scoreId?: string;
+  since?: number; // Epoch ms, inclusive
+  until?: number; // Epoch ms, exclusive
+  limit?: number; // Newest first
+}
+
+/**
+ * How notes in a MIDI file are divided between the hands: 'auto' uses tracks, then
+ * channels, then the split point (middle C)
+ */
+export type MidiHandSplit = 'auto' | 'tracks' | 'channels' | 'split-point';
+
+export interface LoopRange {
+  startMeasure: number; // 0-based, inclusive
+  endMeasure: number; // 0-based, inclusive
+}
+
 export interface ScoreData {
   noteGroups: NoteGroup[];
   tempo: number; // BPM
@@ -31,6 +206,41 @@ export interface TempoChange {
   tempo: number;
 }
 
+/**
+ * Latencies measured by the calibration wizard
+ */
+export interface LatencyMeasurement {
+  inputLatencyMs: number; // Key press to the app receiving it
+  outputLatencyMs: number; // Starting a sound to hearing it
+}
+
+/**
+ * Where playback and auto-play accompaniment sound: the app's piano, the MIDI output device or both
+ */
+export type SoundOutput = 'app' | 'midi' | 'both';
+
+/**
+ * Voices of the app's sound: the sampled grand piano, or synthesized instruments
+ */
+export type Instrument = 'grand-piano' | 'electric-piano' | 'organ' | 'strings';
+
+/**
+ * Mixer channels: score notes go through their hand's channel and then 'auto-play' (playback,
+ * the auto-played hand and note previews); 'live' is what you play
+ */
+export type MixerChannel = 'right' | 'left' | 'live' | 'auto-play';
+
+export interface MixerChannelSettings {
+  volume: number; // 0-100
+  muted: boolean;
+}
+
+/**
+ * The hand a MIDI input plays: 'both' counts for either hand, 'left' or 'right' splits the
+ * hands between keyboards (duets, teacher and student)
+ */
+export type MidiInputHand = 'both' | 'left' | 'right';
+
 export interface MidiDevice {
   id: string;
   name: string;
@@ -5,12 +5,16 @@ export class SimpleKeyboard {
   private highlightedKeys = new Set<number>();
   private useFlats: boolean = false;
   private onNoteClickCallback: ((note: number) => void) | null = null;
+  private onNoteReleaseCallback: ((note: number) => void) | null = null;
+  private pointerNote: number | null = null; // Key held down with the mouse or a finger
   
   private readonly MIN_NOTE = 21; // A0
   private readonly MAX_NOTE = 108; // C8
 
   constructor(container: HTMLElement) {
     this.container = container;
+    document.addEventListener('pointerup', this.releasePointerNote);
+    document.addEventListener('pointercancel', this.releasePointerNote);
     this.render();
   }
 
@@ -23,6 +27,30 @@ export class SimpleKeyboard {
     this.onNoteClickCallback = callback;
   }
 
+  /**
+   * Called when a clicked key is let go
+   */
+  onNoteRelease(callback: (note: number) => void): void {
+    this.onNoteReleaseCallback = callback;
+  }
+
+  private pressPointerNote(note: number): void {
+    this.releasePointerNote();
+    this.pointerNote = note;
+    if (this.onNoteClickCallback) {
+      this.onNoteClickCallback(note);
+    }
+  }
+
+  private releasePointerNote = (): void => {
+    if (this.pointerNote === null) return;
+    const note = this.pointerNote;
+    this.pointerNote = null;
+    if (this.onNoteReleaseCallback) {
+      this.onNoteReleaseCallback(note);
+    }
+  };
+
   private isBlackKey(note: number): boolean {
     const noteInOctave = note % 12;
     return [1, 3, 6, 8, 10].includes(noteInOctave); // C#, D#, F#, G#, A#
@@ -56,11 +84,9 @@ export class SimpleKeyboard {
         key.dataset.note = note.toString();
         
         // Add click handler
-        key.addEventListener('mousedown', () => {
+        key.addEventListener('pointerdown', () => {
           console.log('White key clicked:', note, 'callback exists:', !!this.onNoteClickCallback);
-          if (this.onNoteClickCallback) {
-            this.onNoteClickCallback(note);
-          }
+          this.pressPointerNote(note);
         });
         
         this.container.appendChild(key);
@@ -88,11 +114,9 @@ export class SimpleKeyboard {
           key.dataset.note = note.toString();
           
           // Add click handler
-          key.addEventListener('mousedown', () => {
+          key.addEventListener('pointerdown', () => {
             console.log('Black key clicked:', note);
-            if (this.onNoteClickCallback) {
-              this.onNoteClickCallback(note);
-            }
+            this.pressPointerNote(note);
           });
           
           // Find the white key to the left
@@ -199,6 +223,9 @@ export class SimpleKeyboard {
   }
 
   destroy(): void {
+    this.releasePointerNote();
+    document.removeEventListener('pointerup', this.releasePointerNote);
+    document.removeEventListener('pointercancel', this.releasePointerNote);
     this.container.innerHTML = '';
     this.keys.clear();
   }
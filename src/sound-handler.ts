@@ -1,53 +1,200 @@
 import * as Tone from 'tone';
-import type { NoteGroup } from './shared/types';
+import type { NoteGroup, PedalType, SoundOutput, Instrument, MixerChannel, MixerChannelSettings } from './shared/types';
+import type { MidiHandler } from './midi-handler';
+import { PIANO_SAMPLES, PIANO_SAMPLES_PATH, REMOTE_PIANO_SAMPLES_URL } from './shared/piano-samples';
+
+type Voice = Tone.Sampler | Tone.PolySynth<Tone.Synth> | Tone.PolySynth<Tone.FMSynth>;
+
+// Where each voice plays: one per hand for score notes, one for live playing
+type VoiceSlot = 'right' | 'left' | 'live';
 
 export class SoundHandler {
-  private sampler: Tone.Sampler | null = null;
+  private pianoSamples: Tone.ToneAudioBuffers | null = null; // Null when they failed to load
   private isLoaded: boolean = false;
+  private usingFallbackPiano: boolean = false;
   private activeNotes: Set<string> = new Set();
+  private clickSynth: Tone.Synth | null = null; // Created on first use
+
+  // Instruments and mixer: hand channels -> auto-play channel -> reverb, live channel -> reverb
+  private voices: Record<VoiceSlot, Voice | null> = { right: null, left: null, live: null };
+  private liveInstrument: Instrument = 'grand-piano';
+  private accompanimentInstrument: Instrument = 'grand-piano';
+  private reverb: Tone.Reverb;
+  private channels: Record<MixerChannel, Tone.Channel>;
+
+  // Live playing with pedals
+  private readonly SOFT_PEDAL_VELOCITY = 0.6; // Una corda: quieter attacks
+  private heldKeys: Set<number> = new Set(); // Keys currently down
+  private sustainedNotes: Set<number> = new Set(); // Released keys still sounding because of a pedal
+  private sostenutoNotes: Set<number> = new Set(); // Keys caught by the sostenuto pedal
+  private pedalsDown: Set<PedalType> = new Set();
+
+  // Playback routed to a MIDI output device
+  private midiOutput: MidiHandler | null = null;
+  private outputMode: SoundOutput = 'app';
+
+  constructor() {
+    this.reverb = new Tone.Reverb({ decay: 2.5, wet: 0 }).toDestination();
+    const autoPlay = new Tone.Channel().connect(this.reverb);
+    this.channels = {
+      'auto-play': autoPlay,
+      right: new Tone.Channel().connect(autoPlay),
+      left: new Tone.Channel().connect(autoPlay),
+      live: new Tone.Channel().connect(this.reverb),
+    };
+  }
 
+  /**
+   * Load the bundled piano samples, then the hosted ones if those are missing (falling back to a
+   * synthesized piano if neither can be loaded), and set up the instruments
+   */
   async initialize(): Promise<void> {
-    // Create sampler with piano samples
-    this.sampler = new Tone.Sampler({
-      urls: {
-        A0: "A0.mp3",
-        C1: "C1.mp3",
-        "D#1": "Ds1.mp3",
-        "F#1": "Fs1.mp3",
-        A1: "A1.mp3",
-        C2: "C2.mp3",
-        "D#2": "Ds2.mp3",
-        "F#2": "Fs2.mp3",
-        A2: "A2.mp3",
-        C3: "C3.mp3",
-        "D#3": "Ds3.mp3",
-        "F#3": "Fs3.mp3",
-        A3: "A3.mp3",
-        C4: "C4.mp3",
-        "D#4": "Ds4.mp3",
-        "F#4": "Fs4.mp3",
-        A4: "A4.mp3",
-        C5: "C5.mp3",
-        "D#5": "Ds5.mp3",
-        "F#5": "Fs5.mp3",
-        A5: "A5.mp3",
-        C6: "C6.mp3",
-        "D#6": "Ds6.mp3",
-        "F#6": "Fs6.mp3",
-        A6: "A6.mp3",
-        C7: "C7.mp3",
-        "D#7": "Ds7.mp3",
-        "F#7": "Fs7.mp3",
-        A7: "A7.mp3",
-        C8: "C8.mp3"
-      },
-      release: 1,
-      baseUrl: "https://tonejs.github.io/audio/salamander/"
-    }).toDestination();
-
-    await Tone.loaded();
+    try {
+      this.pianoSamples = await this.loadPianoSamples(PIANO_SAMPLES_PATH);
+      console.log('Piano samples loaded');
+    } catch (error) {
+      console.warn('Bundled piano samples failed to load, trying the hosted ones:', error);
+      try {
+        this.pianoSamples = await this.loadPianoSamples(REMOTE_PIANO_SAMPLES_URL);
+        console.log('Piano samples loaded from', REMOTE_PIANO_SAMPLES_URL);
+      } catch (remoteError) {
+        console.warn('Piano samples failed to load, using the synthesized piano instead:', remoteError);
+        this.usingFallbackPiano = true;
+      }
+    }
+
+    (['right', 'left', 'live'] as const).forEach(slot => this.replaceVoice(slot));
     this.isLoaded = true;
-    console.log('Piano sampler loaded');
+  }
+
+  /**
+   * Whether the synthesized piano is playing because the samples failed to load
+   */
+  isUsingFallbackPiano(): boolean {
+    return this.usingFallbackPiano;
+  }
+
+  /**
+   * The instrument for what you play on the keyboard
+   */
+  setInstrument(instrument: Instrument): void {
+    this.liveInstrument = instrument;
+    if (!this.isLoaded) return;
+
+    this.heldKeys.clear();
+    this.sustainedNotes.clear();
+    this.sostenutoNotes.clear();
+    this.replaceVoice('live');
+  }
+
+  /**
+   * The instrument for playback, the auto-played hand and note previews
+   */
+  setAccompanimentInstrument(instrument: Instrument): void {
+    this.accompanimentInstrument = instrument;
+    if (!this.isLoaded) return;
+
+    this.replaceVoice('right');
+    this.replaceVoice('left');
+  }
+
+  /**
+   * Volume of a mixer channel, 0-100
+   */
+  setChannelVolume(channel: MixerChannel, volume: number): void {
+    this.channels[channel].volume.value = Tone.gainToDb(Math.max(0, Math.min(100, volume)) / 100);
+  }
+
+  setChannelMuted(channel: MixerChannel, muted: boolean): void {
+    this.channels[channel].mute = muted;
+  }
+
+  setMixerChannel(channel: MixerChannel, settings: MixerChannelSettings): void {
+    this.setChannelVolume(channel, settings.volume);
+    this.setChannelMuted(channel, settings.muted);
+  }
+
+  /**
+   * Reverb over everything the app plays, 0 (dry) to 100
+   */
+  setReverb(amount: number): void {
+    this.reverb.wet.value = Math.max(0, Math.min(100, amount)) / 100;
+  }
+
+  private loadPianoSamples(baseUrl: string): Promise<Tone.ToneAudioBuffers> {
+    return new Promise((resolve, reject) => {
+      let failed = false;
+      const buffers = new Tone.ToneAudioBuffers({
+        urls: PIANO_SAMPLES,
+        baseUrl,
+        onload: () => resolve(buffers),
+        onerror: (error) => {
+          // Called for each sample that fails
+          if (failed) return;
+          failed = true;
+          buffers.dispose();
+          reject(error);
+        },
+      });
+    });
+  }
+
+  /**
+   * Swap a slot's voice for its current instrument. Notes still sounding on the old one stop.
+   */
+  private replaceVoice(slot: VoiceSlot): void {
+    const oldVoice = this.voices[slot];
+    if (oldVoice) {
+      oldVoice.releaseAll();
+      oldVoice.dispose();
+    }
+
+    const instrument = slot === 'live' ? this.liveInstrument : this.accompanimentInstrument;
+    this.voices[slot] = this.createVoice(instrument).connect(this.channels[slot]);
+  }
+
+  private createVoice(instrument: Instrument): Voice {
+    switch (instrument) {
+      case 'electric-piano':
+        return new Tone.PolySynth(Tone.FMSynth, {
+          harmonicity: 3,
+          modulationIndex: 8,
+          envelope: { attack: 0.005, decay: 1.2, sustain: 0.2, release: 0.8 },
+          modulationEnvelope: { attack: 0.005, decay: 0.5, sustain: 0.1, release: 0.5 },
+          volume: -12,
+        });
+      case 'organ':
+        return new Tone.PolySynth(Tone.Synth, {
+          oscillator: { type: 'custom', partials: [1, 0.7, 0.4, 0, 0.25, 0, 0, 0.15] },
+          envelope: { attack: 0.01, decay: 0.1, sustain: 0.9, release: 0.08 },
+          volume: -16,
+        });
+      case 'strings':
+        return new Tone.PolySynth(Tone.Synth, {
+          oscillator: { type: 'fatsawtooth', count: 3, spread: 20 },
+          envelope: { attack: 0.25, decay: 0.3, sustain: 0.8, release: 1.2 },
+          volume: -20,
+        });
+      default:
+        return this.pianoSamples ? this.createPiano(this.pianoSamples) : this.createFallbackPiano();
+    }
+  }
+
+  private createPiano(samples: Tone.ToneAudioBuffers): Tone.Sampler {
+    const urls: Record<string, Tone.ToneAudioBuffer> = {};
+    Object.keys(PIANO_SAMPLES).forEach(note => urls[note] = samples.get(note));
+    return new Tone.Sampler({ urls, release: 1 });
+  }
+
+  /**
+   * A plucked, decaying tone that stands in for the piano samples
+   */
+  private createFallbackPiano(): Tone.PolySynth<Tone.Synth> {
+    return new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: 'fattriangle', count: 2, spread: 12 },
+      envelope: { attack: 0.005, decay: 1.5, sustain: 0.15, release: 1 },
+      volume: -10,
+    });
   }
 
   private midiToNoteName(midiNote: number): string {
@@ -57,9 +204,33 @@ export class SoundHandler {
     return `${noteName}${octave}`;
   }
 
+  setMidiOutput(midiHandler: MidiHandler): void {
+    this.midiOutput = midiHandler;
+  }
+
+  setOutputMode(mode: SoundOutput): void {
+    this.outputMode = mode;
+  }
+
+  /**
+   * The app's piano plays unless everything goes to a connected MIDI output
+   */
+  private playsInApp(): boolean {
+    return this.outputMode !== 'midi' || !this.midiOutput?.hasOutput();
+  }
+
+  private playsOnMidi(): boolean {
+    return this.outputMode !== 'app' && !!this.midiOutput?.hasOutput();
+  }
+
   async playNoteGroup(noteGroup: NoteGroup): Promise<void> {
-    if (!this.sampler || !this.isLoaded) {
-      console.warn('Sampler not loaded yet');
+    if (this.playsOnMidi()) {
+      noteGroup.notes.forEach(note => this.midiOutput!.playNote(note.pitch, note.duration * 2, note.velocity));
+    }
+    if (!this.playsInApp()) return;
+
+    if (!this.isLoaded) {
+      console.warn('Instruments not loaded yet');
       return;
     }
 
@@ -82,7 +253,7 @@ export class SoundHandler {
       const noteName = this.midiToNoteName(note.pitch);
       const duration = note.duration * 2; // Scale duration for playback
 
-      this.sampler!.triggerAttackRelease(noteName, duration, undefined, note.velocity);
+      this.voices[note.hand]!.triggerAttackRelease(noteName, duration, undefined, note.velocity);
       this.activeNotes.add(noteName);
 
       // Remove from active notes after release
@@ -92,9 +263,17 @@ export class SoundHandler {
     });
   }
 
-  async playNote(midiNote: number, duration: number, velocity: number = 0.7): Promise<void> {
-    if (!this.sampler || !this.isLoaded) {
-      console.warn('Sampler not loaded yet');
+  /**
+   * Play a score note now, through its hand's voice and mixer channel
+   */
+  async playNote(midiNote: number, duration: number, velocity: number = 0.7, hand: 'left' | 'right' = 'right'): Promise<void> {
+    if (this.playsOnMidi()) {
+      this.midiOutput!.playNote(midiNote, duration, velocity);
+    }
+    if (!this.playsInApp()) return;
+
+    if (!this.isLoaded) {
+      console.warn('Instruments not loaded yet');
       return;
     }
 
@@ -104,7 +283,7 @@ export class SoundHandler {
     }
 
     const noteName = this.midiToNoteName(midiNote);
-    this.sampler.triggerAttackRelease(noteName, duration, undefined, velocity);
+    this.voices[hand]!.triggerAttackRelease(noteName, duration, undefined, velocity);
     this.activeNotes.add(noteName);
 
     // Remove from active notes after release
@@ -113,10 +292,131 @@ export class SoundHandler {
     }, duration * 1000);
   }
 
+  /**
+   * Play a note at an exact AudioContext time (used by Transport-scheduled playback)
+   */
+  playNoteAt(midiNote: number, duration: number, time: number, velocity: number = 0.7, hand: 'left' | 'right' = 'right'): void {
+    if (this.playsOnMidi()) {
+      // Transport callbacks run ahead of the audio clock, so delay the MIDI message to match
+      this.midiOutput!.playNote(midiNote, duration, velocity, (time - Tone.immediate()) * 1000);
+    }
+    if (!this.playsInApp()) return;
+    if (!this.isLoaded) return;
+
+    const noteName = this.midiToNoteName(midiNote);
+    this.voices[hand]!.triggerAttackRelease(noteName, duration, time, velocity);
+    this.activeNotes.add(noteName);
+  }
+
+  /**
+   * A short click at an exact AudioContext time (now if omitted), always on the app's audio
+   */
+  playClickAt(time?: number, accent: boolean = false): void {
+    if (!this.clickSynth) {
+      this.clickSynth = new Tone.Synth({
+        oscillator: { type: 'square' },
+        envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 },
+        volume: -8,
+      }).toDestination();
+    }
+    this.clickSynth.triggerAttackRelease(accent ? 'C7' : 'G6', 0.03, time);
+  }
+
+  /**
+   * Start a live note that sounds until noteOff (and any pedal) releases it
+   */
+  liveNoteOn(midiNote: number, velocity: number = 0.7): void {
+    const voice = this.voices.live;
+    if (!voice || !this.isLoaded) return;
+
+    if (Tone.getContext().state !== 'running') {
+      Tone.start();
+    }
+
+    const noteName = this.midiToNoteName(midiNote);
+    // Re-striking a sustained note cuts the old one
+    if (this.heldKeys.has(midiNote) || this.sustainedNotes.has(midiNote)) {
+      voice.triggerRelease(noteName);
+      this.sustainedNotes.delete(midiNote);
+    }
+
+    const softVelocity = this.pedalsDown.has('soft') ? velocity * this.SOFT_PEDAL_VELOCITY : velocity;
+    voice.triggerAttack(noteName, undefined, softVelocity);
+    this.heldKeys.add(midiNote);
+    this.activeNotes.add(noteName);
+  }
+
+  liveNoteOff(midiNote: number): void {
+    if (!this.isLoaded || !this.heldKeys.delete(midiNote)) return;
+
+    if (this.pedalsDown.has('sustain') || this.sostenutoNotes.has(midiNote)) {
+      this.sustainedNotes.add(midiNote);
+      return;
+    }
+    this.releaseLiveNote(midiNote);
+  }
+
+  /**
+   * Sustain holds every released note, sostenuto holds the keys down when it was pressed,
+   * soft makes new notes quieter
+   */
+  setPedal(pedal: PedalType, down: boolean): void {
+    if (down) {
+      this.pedalsDown.add(pedal);
+      if (pedal === 'sostenuto') {
+        this.sostenutoNotes = new Set(this.heldKeys);
+      }
+      return;
+    }
+
+    this.pedalsDown.delete(pedal);
+    if (pedal === 'sostenuto') {
+      this.sostenutoNotes.clear();
+    }
+
+    // Let go of sustained notes that nothing is holding any more
+    this.sustainedNotes.forEach(midiNote => {
+      if (!this.pedalsDown.has('sustain') && !this.sostenutoNotes.has(midiNote)) {
+        this.sustainedNotes.delete(midiNote);
+        this.releaseLiveNote(midiNote);
+      }
+    });
+  }
+
+  private releaseLiveNote(midiNote: number): void {
+    const noteName = this.midiToNoteName(midiNote);
+    this.voices.live?.triggerRelease(noteName);
+    this.activeNotes.delete(noteName);
+  }
+
+  /**
+   * Silence playback and auto-play (the hand voices and the MIDI output). Notes you're playing,
+   * or holding with a pedal, keep sounding.
+   */
+  stopAccompaniment(): void {
+    if (this.playsOnMidi()) {
+      this.midiOutput!.stopAllNotes();
+    }
+    if (!this.isLoaded) return;
+
+    this.voices.right?.releaseAll();
+    this.voices.left?.releaseAll();
+    const liveNotes = new Set([...this.heldKeys, ...this.sustainedNotes].map(midiNote => this.midiToNoteName(midiNote)));
+    this.activeNotes = new Set([...this.activeNotes].filter(noteName => liveNotes.has(noteName)));
+  }
+
+  /**
+   * Silence everything, your own playing included, and forget held and pedalled keys. For
+   * teardown or a panic reset; playback only needs stopAccompaniment.
+   */
   stopAllNotes(): void {
-    if (!this.sampler || !this.isLoaded) return;
+    this.stopAccompaniment();
+    if (!this.isLoaded) return;
 
-    this.sampler.releaseAll();
+    this.voices.live?.releaseAll();
+    this.heldKeys.clear();
+    this.sustainedNotes.clear();
+    this.sostenutoNotes.clear();
     this.activeNotes.clear();
   }
 }
@@ -0,0 +1,41 @@
+import type { SpeedTrainerSettings } from './shared/types';
+
+/**
+ * Tempo ramping for practice: a loop or the piece starts at a low tempo multiplier, which goes
+ * up a step after each clean pass and down a step after a pass with mistakes, up to a target
+ */
+export class SpeedTrainer {
+  private readonly MIN_MULTIPLIER = 0.2;
+  private enabled: boolean = false;
+  private settings: SpeedTrainerSettings = { startMultiplier: 0.5, step: 0.1, targetMultiplier: 1.0 };
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setSettings(settings: SpeedTrainerSettings): void {
+    this.settings = { ...settings };
+  }
+
+  getSettings(): SpeedTrainerSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Multiplier for the next pass after one played at `multiplier`
+   */
+  getNextMultiplier(multiplier: number, clean: boolean): number {
+    const { step, targetMultiplier } = this.settings;
+    const next = clean ? Math.min(targetMultiplier, multiplier + step) : Math.max(this.MIN_MULTIPLIER, multiplier - step);
+    // Keep to the tempo slider's 0.1 steps without floating point drift
+    return Math.round(next * 100) / 100;
+  }
+
+  isAtTarget(multiplier: number): boolean {
+    return multiplier >= this.settings.targetMultiplier - 1e-6;
+  }
+}
@@ -0,0 +1,371 @@
+import type { PracticeSession } from './shared/types';
+import type { SessionStore } from './session-store';
+
+interface ScoreSummary {
+  scoreId: string;
+  title: string;
+  sessions: number;
+  totalMs: number;
+  bestAccuracy: number;
+  bestTempo: number | null; // Fastest completed run, null if never completed
+  lastPractised: number;
+}
+
+interface ChartBar {
+  label: string;
+  value: number;
+  tooltip: string;
+}
+
+/**
+ * Practice statistics view built from the session history
+ */
+export class StatsDashboard {
+  private sessionStore: SessionStore;
+  private container: HTMLElement | null;
+  private sessions: PracticeSession[] = [];
+  private selectedScoreId: string | null = null;
+  private onCloseCallback: (() => void) | null = null;
+  private readonly DAYS_SHOWN = 14;
+  private readonly WEEKS_SHOWN = 8;
+  private readonly PROGRESS_SESSIONS_SHOWN = 30;
+
+  constructor(sessionStore: SessionStore, containerId: string = 'stats-dashboard') {
+    this.sessionStore = sessionStore;
+    this.container = document.getElementById(containerId);
+
+    // One delegated handler survives every re-render
+    this.container?.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('.stats-close-btn')) {
+        this.hide();
+        if (this.onCloseCallback) this.onCloseCallback();
+        return;
+      }
+
+      const row = target.closest('[data-score-id]');
+      if (row) {
+        this.selectedScoreId = row.getAttribute('data-score-id');
+        this.render();
+      }
+    });
+  }
+
+  async show(): Promise<void> {
+    if (!this.container) return;
+
+    try {
+      this.sessions = await this.sessionStore.getSessions();
+    } catch (error) {
+      console.error('Failed to load practice sessions:', error);
+      this.sessions = [];
+    }
+
+    // Default to the score practised most recently
+    if (!this.selectedScoreId || !this.sessions.some(session => session.scoreId === this.selectedScoreId)) {
+      this.selectedScoreId = this.sessions[0]?.scoreId ?? null;
+    }
+
+    this.render();
+    this.container.style.display = 'block';
+  }
+
+  hide(): void {
+    if (this.container) this.container.style.display = 'none';
+  }
+
+  isVisible(): boolean {
+    return this.container?.style.display === 'block';
+  }
+
+  onClose(callback: () => void): void {
+    this.onCloseCallback = callback;
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const header = `
+      <div class="stats-header">
+        <h2>Practice Statistics</h2>
+        <button class="header-btn stats-close-btn" title="Back to Scores">
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M18 6L6 18M6 6l12 12"/></svg>
+        </button>
+      </div>`;
+
+    if (this.sessions.length === 0) {
+      this.container.innerHTML = `${header}<p class="stats-empty">No practice recorded yet. Open a score and play to start your history.</p>`;
+      return;
+    }
+
+    const scores = this.getScoreSummaries();
+    const selected = scores.find(score => score.scoreId === this.selectedScoreId);
+
+    this.container.innerHTML = `
+      ${header}
+      ${this.renderSummary()}
+      <div class="stats-charts">
+        <div class="stats-card">
+          <h3>Last ${this.DAYS_SHOWN} Days</h3>
+          ${this.renderBarChart(this.getDailyTotals())}
+        </div>
+        <div class="stats-card">
+          <h3>Last ${this.WEEKS_SHOWN} Weeks</h3>
+          ${this.renderBarChart(this.getWeeklyTotals())}
+        </div>
+      </div>
+      <div class="stats-card">
+        <h3>Scores</h3>
+        ${this.renderScoreTable(scores)}
+      </div>
+      ${selected ? `
+      <div class="stats-card">
+        <h3>Progress: ${this.escapeHtml(selected.title)}</h3>
+        ${this.renderProgressChart(selected.scoreId)}
+      </div>` : ''}`;
+  }
+
+  private renderSummary(): string {
+    const now = Date.now();
+    const todayKey = this.dayKey(now);
+    const weekStart = this.weekStart(now);
+    const today = this.sessions
+      .filter(session => this.dayKey(session.startedAt) === todayKey)
+      .reduce((sum, session) => sum + session.durationMs, 0);
+    const thisWeek = this.sessions
+      .filter(session => session.startedAt >= weekStart)
+      .reduce((sum, session) => sum + session.durationMs, 0);
+    const total = this.sessions.reduce((sum, session) => sum + session.durationMs, 0);
+    const { current, longest } = this.getStreaks();
+
+    const cards = [
+      { label: 'Today', value: this.formatDuration(today) },
+      { label: 'This Week', value: this.formatDuration(thisWeek) },
+      { label: 'Current Streak', value: `${current} day${current === 1 ? '' : 's'}` },
+      { label: 'Longest Streak', value: `${longest} day${longest === 1 ? '' : 's'}` },
+      { label: 'All Time', value: `${this.formatDuration(total)} · ${this.sessions.length} sessions` },
+    ];
+
+    return `<div class="stats-summary">${cards.map(card => `
+      <div class="stats-summary-item">
+        <span class="stats-summary-value">${card.value}</span>
+        <span class="stats-summary-label">${card.label}</span>
+      </div>`).join('')}
+    </div>`;
+  }
+
+  private renderBarChart(bars: ChartBar[]): string {
+    const width = 560;
+    const height = 160;
+    const labelHeight = 20;
+    const chartHeight = height - labelHeight;
+    const slot = width / bars.length;
+    const max = Math.max(1, ...bars.map(bar => bar.value));
+
+    const columns = bars.map((bar, i) => {
+      const barHeight = (bar.value / max) * (chartHeight - 4);
+      const x = i * slot + slot * 0.15;
+      return `
+        <g>
+          <title>${this.escapeHtml(bar.tooltip)}</title>
+          <rect x="${x}" y="${chartHeight - barHeight}" width="${slot * 0.7}" height="${Math.max(barHeight, bar.value > 0 ? 2 : 0)}" rx="2" fill="#4a9eff"/>
+          <text x="${x + slot * 0.35}" y="${height - 5}" text-anchor="middle" font-size="11" fill="#999">${this.escapeHtml(bar.label)}</text>
+        </g>`;
+    }).join('');
+
+    return `<svg class="stats-chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">
+      <line x1="0" y1="${chartHeight}" x2="${width}" y2="${chartHeight}" stroke="#e0e0e0"/>
+      ${columns}
+    </svg>`;
+  }
+
+  private renderScoreTable(scores: ScoreSummary[]): string {
+    const rows = scores.map(score => `
+      <tr data-score-id="${this.escapeHtml(score.scoreId)}" class="${score.scoreId === this.selectedScoreId ? 'selected' : ''}">
+        <td>${this.escapeHtml(score.title)}</td>
+        <td>${score.sessions}</td>
+        <td>${this.formatDuration(score.totalMs)}</td>
+        <td>${Math.round(score.bestAccuracy * 100)}%</td>
+        <td>${score.bestTempo !== null ? `${score.bestTempo.toFixed(1)}x` : '-'}</td>
+        <td>${new Date(score.lastPractised).toLocaleDateString()}</td>
+      </tr>`).join('');
+
+    return `<table class="stats-table">
+      <thead>
+        <tr><th>Score</th><th>Sessions</th><th>Time</th><th>Best Accuracy</th><th>Best Tempo</th><th>Last Practised</th></tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+  }
+
+  /**
+   * Accuracy and tempo of each run of a score, oldest on the left
+   */
+  private renderProgressChart(scoreId: string): string {
+    const runs = this.sessions
+      .filter(session => session.scoreId === scoreId)
+      .slice(0, this.PROGRESS_SESSIONS_SHOWN)
+      .reverse();
+
+    const width = 560;
+    const height = 180;
+    const padding = 24;
+    const maxTempo = Math.max(1.5, ...runs.map(run => run.tempoMultiplier));
+    const x = (i: number) => runs.length === 1 ? width / 2 : padding + (i / (runs.length - 1)) * (width - padding * 2);
+    const y = (fraction: number) => padding + (1 - fraction) * (height - padding * 2);
+
+    const accuracyPoints = runs.map((run, i) => `${x(i)},${y(run.accuracy)}`).join(' ');
+    const tempoPoints = runs.map((run, i) => `${x(i)},${y(run.tempoMultiplier / maxTempo)}`).join(' ');
+    const markers = runs.map((run, i) => `
+      <circle cx="${x(i)}" cy="${y(run.accuracy)}" r="4" fill="${run.completed ? '#4caf50' : '#ffffff'}" stroke="#4caf50" stroke-width="2">
+        <title>${new Date(run.startedAt).toLocaleString()} · ${Math.round(run.accuracy * 100)}% · ${run.tempoMultiplier.toFixed(1)}x${run.completed ? ' · completed' : ''}</title>
+      </circle>`).join('');
+
+    return `<svg class="stats-chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">
+      <line x1="${padding}" y1="${y(1)}" x2="${width - padding}" y2="${y(1)}" stroke="#f0f0f0"/>
+      <line x1="${padding}" y1="${y(0.5)}" x2="${width - padding}" y2="${y(0.5)}" stroke="#f0f0f0"/>
+      <line x1="${padding}" y1="${y(0)}" x2="${width - padding}" y2="${y(0)}" stroke="#e0e0e0"/>
+      <text x="2" y="${y(1) + 4}" font-size="10" fill="#999">100%</text>
+      <text x="2" y="${y(0.5) + 4}" font-size="10" fill="#999">50%</text>
+      <polyline points="${tempoPoints}" fill="none" stroke="#ff9800" stroke-width="2" stroke-dasharray="4 3"/>
+      <polyline points="${accuracyPoints}" fill="none" stroke="#4caf50" stroke-width="2"/>
+      ${markers}
+    </svg>
+    <div class="stats-legend">
+      <span class="stats-legend-accuracy">Accuracy (filled = completed)</span>
+      <span class="stats-legend-tempo">Tempo (up to ${maxTempo.toFixed(1)}x)</span>
+    </div>`;
+  }
+
+  /**
+   * Totals per score, most recently practised first. Best accuracy and tempo come from
+   * completed runs when there are any, so a short false start doesn't count as a best.
+   */
+  private getScoreSummaries(): ScoreSummary[] {
+    const byScore = new Map<string, PracticeSession[]>();
+    for (const session of this.sessions) {
+      const list = byScore.get(session.scoreId) || [];
+      list.push(session);
+      byScore.set(session.scoreId, list);
+    }
+
+    return [...byScore.entries()].map(([scoreId, sessions]) => {
+      const completed = sessions.filter(session => session.completed);
+      const graded = completed.length > 0 ? completed : sessions;
+      return {
+        scoreId,
+        title: sessions[0].scoreTitle,
+        sessions: sessions.length,
+        totalMs: sessions.reduce((sum, session) => sum + session.durationMs, 0),
+        bestAccuracy: Math.max(...graded.map(session => session.accuracy)),
+        bestTempo: completed.length > 0 ? Math.max(...completed.map(session => session.tempoMultiplier)) : null,
+        lastPractised: sessions[0].startedAt,
+      };
+    });
+  }
+
+  private getDailyTotals(): ChartBar[] {
+    const today = new Date();
+    const bars: ChartBar[] = [];
+
+    for (let i = this.DAYS_SHOWN - 1; i >= 0; i--) {
+      const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() - i);
+      const key = this.dayKey(day.getTime());
+      const total = this.sessions
+        .filter(session => this.dayKey(session.startedAt) === key)
+        .reduce((sum, session) => sum + session.durationMs, 0);
+      bars.push({
+        label: day.toLocaleDateString(undefined, { day: 'numeric', month: 'numeric' }),
+        value: total,
+        tooltip: `${day.toLocaleDateString()}: ${this.formatDuration(total)}`,
+      });
+    }
+    return bars;
+  }
+
+  private getWeeklyTotals(): ChartBar[] {
+    const currentWeek = new Date(this.weekStart(Date.now()));
+    const bars: ChartBar[] = [];
+
+    for (let i = this.WEEKS_SHOWN - 1; i >= 0; i--) {
+      const start = new Date(currentWeek.getFullYear(), currentWeek.getMonth(), currentWeek.getDate() - i * 7);
+      const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+      const total = this.sessions
+        .filter(session => session.startedAt >= start.getTime() && session.startedAt < end.getTime())
+        .reduce((sum, session) => sum + session.durationMs, 0);
+      bars.push({
+        label: start.toLocaleDateString(undefined, { day: 'numeric', month: 'numeric' }),
+        value: total,
+        tooltip: `Week of ${start.toLocaleDateString()}: ${this.formatDuration(total)}`,
+      });
+    }
+    return bars;
+  }
+
+  /**
+   * Consecutive days with practice. The current streak is still alive if the last
+   * practice was yesterday.
+   */
+  private getStreaks(): { current: number; longest: number } {
+    const days = new Set(this.sessions.map(session => this.dayKey(session.startedAt)));
+    const previousDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+
+    let current = 0;
+    let day = new Date();
+    if (!days.has(this.dayKey(day.getTime()))) day = previousDay(day);
+    while (days.has(this.dayKey(day.getTime()))) {
+      current++;
+      day = previousDay(day);
+    }
+
+    let longest = 0;
+    for (const key of days) {
+      const [year, month, date] = key.split('-').map(Number);
+      // Only count from the first day of each run
+      if (days.has(this.dayKey(new Date(year, month - 1, date - 1).getTime()))) continue;
+
+      let length = 0;
+      let cursor = new Date(year, month - 1, date);
+      while (days.has(this.dayKey(cursor.getTime()))) {
+        length++;
+        cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+      }
+      longest = Math.max(longest, length);
+    }
+
+    return { current, longest };
+  }
+
+  /**
+   * Local calendar day, e.g. "2024-03-07"
+   */
+  private dayKey(time: number): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  /**
+   * Local midnight on the Monday of the week containing the time
+   */
+  private weekStart(time: number): number {
+    const date = new Date(time);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7).getTime();
+  }
+
+  private formatDuration(ms: number): string {
+    const totalMinutes = Math.floor(ms / 60000);
+    if (totalMinutes === 0) return `${Math.round(ms / 1000)}s`;
+
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
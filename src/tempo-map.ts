@@ -0,0 +1,105 @@
+import type { MeasureTiming, TempoMarking, TempoRamp, TimeSignature } from './shared/types';
+
+/**
+ * The score's tempo and meter by position: tempo markings, rit./accel. spans and each measure's
+ * time signature, looked up by absoluteTime (whole notes from the start of the piece)
+ */
+export class TempoMap {
+  private readonly DEFAULT_TEMPO = 120;
+  private readonly DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+  private readonly EPSILON = 1e-6;
+  private markings: TempoMarking[];
+  private ramps: TempoRamp[];
+  private measures: MeasureTiming[];
+
+  constructor(markings: TempoMarking[] = [], ramps: TempoRamp[] = [], measures: MeasureTiming[] = []) {
+    this.markings = [...markings].sort((a, b) => a.absoluteTime - b.absoluteTime);
+    this.ramps = [...ramps].sort((a, b) => a.startTime - b.startTime);
+    this.measures = measures;
+  }
+
+  setMeasures(measures: MeasureTiming[]): void {
+    this.measures = measures;
+  }
+
+  /**
+   * Start, length and time signature of every measure, in score order
+   */
+  getMeasures(): MeasureTiming[] {
+    return this.measures;
+  }
+
+  getTempoMarkings(): TempoMarking[] {
+    return this.markings;
+  }
+
+  getRamps(): TempoRamp[] {
+    return this.ramps;
+  }
+
+  /**
+   * Notated tempo (quarter notes per minute) at a point; before the first marking it is the
+   * first marking's tempo. Rit./accel. spans don't change it - see getRampAt.
+   */
+  getTempoAt(absoluteTime: number): number {
+    let tempo = this.markings[0]?.bpm ?? this.DEFAULT_TEMPO;
+    for (const marking of this.markings) {
+      if (marking.absoluteTime > absoluteTime + this.EPSILON) break;
+      tempo = marking.bpm;
+    }
+    return tempo;
+  }
+
+  /**
+   * Tempo markings from `from` (inclusive) to `to` (exclusive)
+   */
+  getTempoChanges(from: number, to: number): TempoMarking[] {
+    return this.markings.filter(marking =>
+      marking.absoluteTime >= from - this.EPSILON && marking.absoluteTime < to - this.EPSILON
+    );
+  }
+
+  /**
+   * The rit./accel. span a point falls in, if any
+   */
+  getRampAt(absoluteTime: number): TempoRamp | null {
+    return this.ramps.find(ramp =>
+      ramp.startTime <= absoluteTime + this.EPSILON && absoluteTime < ramp.endTime - this.EPSILON
+    ) ?? null;
+  }
+
+  getTimeSignatureAt(absoluteTime: number): TimeSignature {
+    return this.getMeasureAt(absoluteTime)?.timeSignature ?? this.DEFAULT_TIME_SIGNATURE;
+  }
+
+  /**
+   * The measure a point falls in (the last one for points past the end)
+   */
+  getMeasureAt(absoluteTime: number): MeasureTiming | null {
+    let found: MeasureTiming | null = null;
+    for (const measure of this.measures) {
+      if (measure.absoluteTime > absoluteTime + this.EPSILON) break;
+      found = measure;
+    }
+    return found ?? this.measures[0] ?? null;
+  }
+
+  /**
+   * Milliseconds between two points at the notated tempo (1x), following tempo changes between them
+   */
+  getDurationMs(from: number, to: number): number {
+    if (to <= from) return 0;
+
+    let ms = 0;
+    let time = from;
+    let tempo = this.getTempoAt(from);
+    for (const marking of this.getTempoChanges(from, to)) {
+      if (marking.absoluteTime > time) {
+        ms += (marking.absoluteTime - time) * 240000 / tempo;
+        time = marking.absoluteTime;
+      }
+      tempo = marking.bpm;
+    }
+    return ms + (to - time) * 240000 / tempo;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Device id reported with notes from the computer keyboard and the on-screen keyboard
+ */
+export const VIRTUAL_INPUT_ID = 'virtual';
+
+// Semitones above the base C for each key, laid out like a piano on two rows
+const QWERTY_NOTES: Record<string, number> = {
+  KeyA: 0, KeyW: 1, KeyS: 2, KeyE: 3, KeyD: 4, KeyF: 5, KeyT: 6, KeyG: 7, KeyY: 8, KeyH: 9,
+  KeyU: 10, KeyJ: 11, KeyK: 12, KeyO: 13, KeyL: 14, KeyP: 15, Semicolon: 16, Quote: 17,
+};
+
+/**
+ * Note input without MIDI hardware: the computer keyboard (QWERTY) and clicks on the on-screen
+ * keyboard. Notes go to the same kind of callbacks as MidiHandler.
+ */
+export class VirtualInput {
+  private readonly VELOCITY = 96;
+  private readonly MIN_OCTAVE = 1;
+  private readonly MAX_OCTAVE = 7;
+  private qwertyEnabled: boolean = false;
+  private octave: number = 4; // Octave of the A key (4 = middle C)
+  private heldNotes = new Set<number>();
+  private qwertyNotes = new Map<string, number>(); // Key code -> note it started, so octave shifts release the right note
+  private latched: boolean = false; // Shift held: releases wait, to build chords
+  private latchedNotes = new Set<number>();
+  private onNoteOnCallback: ((note: number, velocity: number, deviceId: string) => void) | null = null;
+  private onNoteOffCallback: ((note: number, deviceId: string) => void) | null = null;
+  private onOctaveChangeCallback: ((octave: number) => void) | null = null;
+
+  constructor() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.releaseAll);
+  }
+
+  setQwertyEnabled(enabled: boolean): void {
+    this.qwertyEnabled = enabled;
+    if (!enabled) {
+      this.qwertyNotes.forEach(note => this.noteOff(note));
+      this.qwertyNotes.clear();
+    }
+  }
+
+  isQwertyEnabled(): boolean {
+    return this.qwertyEnabled;
+  }
+
+  /**
+   * Whether a key press is taken as a note (so shortcuts on the same key can stand aside)
+   */
+  handlesKey(e: KeyboardEvent): boolean {
+    if (!this.qwertyEnabled || e.ctrlKey || e.metaKey || e.altKey) return false;
+    return e.code in QWERTY_NOTES || e.code === 'KeyZ' || e.code === 'KeyX';
+  }
+
+  getOctave(): number {
+    return this.octave;
+  }
+
+  /**
+   * Press a key, e.g. from the on-screen keyboard. A key already down isn't struck again.
+   */
+  noteOn(note: number, velocity: number = this.VELOCITY): void {
+    if (this.latchedNotes.delete(note)) {
+      // Striking a latched note again plays it afresh
+      this.heldNotes.delete(note);
+      this.onNoteOffCallback?.(note, VIRTUAL_INPUT_ID);
+    }
+    if (this.heldNotes.has(note)) return;
+
+    this.heldNotes.add(note);
+    this.onNoteOnCallback?.(note, velocity, VIRTUAL_INPUT_ID);
+  }
+
+  /**
+   * Release a key; while Shift is held the note stays down until Shift is released
+   */
+  noteOff(note: number): void {
+    if (!this.heldNotes.has(note)) return;
+
+    if (this.latched) {
+      this.latchedNotes.add(note);
+      return;
+    }
+    this.heldNotes.delete(note);
+    this.onNoteOffCallback?.(note, VIRTUAL_INPUT_ID);
+  }
+
+  onNoteOn(callback: (note: number, velocity: number, deviceId: string) => void): void {
+    this.onNoteOnCallback = callback;
+  }
+
+  onNoteOff(callback: (note: number, deviceId: string) => void): void {
+    this.onNoteOffCallback = callback;
+  }
+
+  onOctaveChange(callback: (octave: number) => void): void {
+    this.onOctaveChangeCallback = callback;
+  }
+
+  private setLatched(latched: boolean): void {
+    this.latched = latched;
+    if (!latched) {
+      this.latchedNotes.forEach(note => this.noteOff(note));
+      this.latchedNotes.clear();
+    }
+  }
+
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+    if (e.key === 'Shift') {
+      this.setLatched(true);
+      return;
+    }
+    if (!this.handlesKey(e)) return;
+
+    e.preventDefault();
+    if (e.repeat) return;
+
+    if (e.code === 'KeyZ' || e.code === 'KeyX') {
+      const octave = Math.min(this.MAX_OCTAVE, Math.max(this.MIN_OCTAVE, this.octave + (e.code === 'KeyZ' ? -1 : 1)));
+      if (octave !== this.octave) {
+        this.octave = octave;
+        this.onOctaveChangeCallback?.(octave);
+      }
+      return;
+    }
+
+    const note = (this.octave + 1) * 12 + QWERTY_NOTES[e.code];
+    this.qwertyNotes.set(e.code, note);
+    this.noteOn(note);
+  };
+
+  private handleKeyUp = (e: KeyboardEvent): void => {
+    if (e.key === 'Shift') {
+      this.setLatched(false);
+      return;
+    }
+
+    const note = this.qwertyNotes.get(e.code);
+    if (note === undefined) return;
+    this.qwertyNotes.delete(e.code);
+    this.noteOff(note);
+  };
+
+  /**
+   * Key up events are lost when the window loses focus, so let go of everything
+   */
+  private releaseAll = (): void => {
+    this.qwertyNotes.clear();
+    this.setLatched(false);
+    this.heldNotes.forEach(note => this.noteOff(note));
+  };
+
+  dispose(): void {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.releaseAll);
+    this.releaseAll();
+  }
+}